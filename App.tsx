@@ -3,6 +3,8 @@ import Bookshelf from './components/Bookshelf';
 import Reader from './components/Reader/Reader';
 import { Book, ViewMode, ReaderSettings, AnkiSettingsType } from './types';
 import { defaultAnkiSettings } from './services/anki';
+import { setStorageBackend } from './services/db';
+import { DEFAULT_KEYBINDINGS, DEFAULT_GAMEPAD_BINDINGS, normalizeBindingProfiles } from './services/keybindings';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewMode>('bookshelf');
@@ -33,15 +35,20 @@ const App: React.FC = () => {
       segmentationMethod: 'browser',
       webSearchEngine: 'bing_trans', // Changed default
       webSearchMode: 'iframe',
-      keybindings: {
-          nextPage: ['ArrowRight', ' '],
-          prevPage: ['ArrowLeft'],
-          toggleMenu: ['m'],
-          fullscreen: ['f']
-      },
+      keybindings: DEFAULT_KEYBINDINGS,
+      gamepadBindings: DEFAULT_GAMEPAD_BINDINGS,
       ankiBoldText: true,
       popupFontSize: 16,
-      copyToClipboard: false
+      copyToClipboard: false,
+      unpackOnImport: false,
+      imageCacheSize: 256,
+      preloadPages: 3,
+      storageBackend: 'indexeddb',
+      trashRetentionDays: 30,
+      fitMode: 'page',
+      customZoom: 150,
+      keepZoom: false,
+      swipeToTurn: true
     };
 
     if (saved) {
@@ -56,6 +63,9 @@ const App: React.FC = () => {
                 parsed.overlayStyle = parsed.highlightOcr ? 'fill' : 'hidden';
                 delete parsed.highlightOcr;
             }
+            const bindings = normalizeBindingProfiles(parsed.keybindings, parsed.gamepadBindings);
+            parsed.keybindings = bindings.keyboard;
+            parsed.gamepadBindings = bindings.gamepad;
             return { ...defaults, ...parsed };
         } catch (e) {
             return defaults;
@@ -74,6 +84,10 @@ const App: React.FC = () => {
       localStorage.setItem('ankiSettings', JSON.stringify(ankiSettings));
   }, [ankiSettings]);
 
+  useEffect(() => {
+      setStorageBackend(settings.storageBackend || 'indexeddb');
+  }, [settings.storageBackend]);
+
   useEffect(() => {
     localStorage.setItem('readerSettings', JSON.stringify(settings));
     // Apply Theme
@@ -110,8 +124,10 @@ const App: React.FC = () => {
       
       {view === 'reader' && currentBook && (
         <Reader 
+          key={currentBook.id}
           book={currentBook} 
           onExit={handleExitReader} 
+          onOpenBook={handleOpenBook}
           settings={settings}
           setSettings={setSettings}
           ankiSettings={ankiSettings}
@@ -1,10 +1,16 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { Book, ReaderSettings, AnkiSettingsType } from '../types';
-import { getAllBooks, addBook, deleteBook, updateBookMokuro, updateBookTranslatedFile, updateBookTitle, updateBookCover, updateBookFile, updateBookLanguage, updateBookAnkiTags } from '../services/db';
-import { extractCoverImage } from '../services/parser';
-import { Plus, Trash2, BookOpen, Upload, FileText, Settings, Maximize2, Minimize2, Globe, Layout, X, Grid, List, Edit2, Save, Download, RefreshCw, Tag, FileJson, Database, BarChart2, Calendar, Clock, Activity, Book as BookIcon, Zap } from 'lucide-react';
+import { Book, ReaderSettings, AnkiSettingsType, SUPPORTED_LANGUAGES, SeriesInfo, ReadingDirection, LibraryFolder } from '../types';
+import { getAllBooks, addBook, deleteBook, updateBookMokuro, updateBookTranslatedFile, updateBookTitle, updateBookCover, updateBookFile, updateBookLanguage, updateBookAnkiTags, updateBookSeries, updateBookReadingDirection, deleteBookPages, getLibraryFolder, saveLibraryFolder, updateBookFingerprint, trashBook, restoreBook, getTrashedBooks, purgeTrash } from '../services/db';
+import { extractBookInfo, isSupportedBookFile, stripBookExtension, BOOK_FILE_ACCEPT } from '../services/parser';
+import { ImportFile, ImportCandidate, ImageBookDraft, fromFileList, collectDroppedFiles, buildImportCandidates, buildImageDrafts, fromClipboard, sortImageFiles, packImagesToCbz } from '../services/importer';
+import { groupBooksBySeries, getBookProgressPercent, guessSeriesFromTitle } from '../services/series';
+import { getComicInfoDefaults } from '../services/comicinfo';
+import { unpackBook } from '../services/pageStore';
+import { tryComputeFingerprint, findDuplicateBook } from '../services/fingerprint';
+import { isFileSystemAccessSupported, pickBookFiles, pickLibraryFolder, scanDirectory, hasHandlePermission, requestHandlePermission, isPickerAbort, getBookArchive } from '../services/fileAccess';
+import { Plus, Trash2, BookOpen, Upload, FileText, Settings, Maximize2, Minimize2, Globe, Layout, X, Grid, List, Edit2, Save, Download, RefreshCw, Tag, FileJson, Database, BarChart2, Calendar, Clock, Activity, Book as BookIcon, Zap, FolderOpen, Loader2, Layers, ChevronLeft, ChevronRight, Link, FolderSync, ImagePlus, ArrowDownAZ, Copy, Replace, Trash, ArchiveRestore } from 'lucide-react';
 import { t } from '../services/i18n';
 import Sidebar from './Reader/Sidebar'; 
 
@@ -20,6 +26,17 @@ const generateUUID = () => {
     });
 };
 
+// Page preview in the image book composer, the object URL lives as long as the thumbnail
+const ImageThumb: React.FC<{ file: File }> = ({ file }) => {
+    const [url, setUrl] = useState('');
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [file]);
+    return url ? <img src={url} alt={file.name} className="w-full h-full object-cover pointer-events-none" /> : null;
+};
+
 interface BookshelfProps {
   onOpenBook: (book: Book) => void;
   settings: ReaderSettings;
@@ -41,23 +58,70 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
 
   // Add Modal State
   const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pendingHandle, setPendingHandle] = useState<FileSystemFileHandle | null>(null);
+  const [pendingFingerprint, setPendingFingerprint] = useState<string | undefined>(undefined);
+  const [pendingDuplicate, setPendingDuplicate] = useState<Book | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [editType, setEditType] = useState<'manga' | 'webtoon'>('manga');
   const [editCover, setEditCover] = useState<string | null>(null);
   const [editCoverBlob, setEditCoverBlob] = useState<Blob | null>(null);
   const [editLanguage, setEditLanguage] = useState('');
+  const [editSeriesName, setEditSeriesName] = useState('');
+  const [editVolume, setEditVolume] = useState('');
+  const [editChapter, setEditChapter] = useState('');
+  const [editSortKey, setEditSortKey] = useState('');
+  const [editDirection, setEditDirection] = useState<ReadingDirection | ''>('');
   
   // Edit Existing Book State
   const [editingBook, setEditingBook] = useState<Book | null>(null);
   const [editAnkiTags, setEditAnkiTags] = useState(''); // New State
 
+  // Batch Import State
+  const [batchItems, setBatchItems] = useState<ImportCandidate[] | null>(null);
+  const [batchProgress, setBatchProgress] = useState(0);
+
+  // Image Book State (first draft is the one being edited)
+  const [imageDrafts, setImageDrafts] = useState<ImageBookDraft[]>([]);
+  const [dragPageIndex, setDragPageIndex] = useState<number | null>(null);
+
+  // Series View State (name of the expanded series)
+  const [openSeries, setOpenSeries] = useState<string | null>(null);
+
+  const [libraryFolder, setLibraryFolder] = useState<LibraryFolder | null>(null);
+
+  // Trash State
+  const [trashedBooks, setTrashedBooks] = useState<Book[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+
   useEffect(() => {
-    loadBooks();
+    purgeTrash(settings.trashRetentionDays ?? 30)
+        .catch(e => console.error("Failed to purge trash", e))
+        .then(() => loadBooks());
+    // New volumes in the library folder are picked up on start when access is still granted
+    getLibraryFolder().then(async folder => {
+        if (!folder) return;
+        setLibraryFolder(folder);
+        if (await hasHandlePermission(folder.handle)) scanLibraryFolder(folder, false);
+    }).catch(e => console.error("Failed to load library folder", e));
     const handleFsChange = () => setIsFullscreen(!!document.fullscreenElement);
     document.addEventListener('fullscreenchange', handleFsChange);
     return () => document.removeEventListener('fullscreenchange', handleFsChange);
   }, []);
 
+  // Pasted images go into the open draft, or start a new one
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+        const images = e.clipboardData ? fromClipboard(e.clipboardData) : [];
+        if (images.length === 0) return;
+        e.preventDefault();
+        setImageDrafts(prev => prev.length > 0
+            ? [{ ...prev[0], images: [...prev[0].images, ...images] }, ...prev.slice(1)]
+            : [{ id: `paste:${Date.now()}`, title: `${t(settings.language, 'pastedImages')} ${new Date().toLocaleDateString()}`, images }]);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [settings.language]);
+
   const loadBooks = async () => {
     const loadedBooks = await getAllBooks();
     const booksWithCovers = loadedBooks.map(b => {
@@ -67,22 +131,87 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
         return b;
     });
     setBooks(booksWithCovers);
+    setTrashedBooks(await getTrashedBooks());
+  };
+
+  const setSeriesFields = (series?: SeriesInfo) => {
+      setEditSeriesName(series?.name || '');
+      setEditVolume(series?.volume !== undefined ? String(series.volume) : '');
+      setEditChapter(series?.chapter !== undefined ? String(series.chapter) : '');
+      setEditSortKey(series?.sortKey !== undefined ? String(series.sortKey) : '');
+  };
+
+  const getSeriesFromFields = (): SeriesInfo | undefined => {
+      const name = editSeriesName.trim();
+      if (!name) return undefined;
+      const volume = parseFloat(editVolume);
+      const chapter = parseFloat(editChapter);
+      const sortKey = parseFloat(editSortKey);
+      return {
+          name,
+          volume: isNaN(volume) ? undefined : volume,
+          chapter: isNaN(chapter) ? undefined : chapter,
+          sortKey: isNaN(sortKey) ? undefined : sortKey
+      };
   };
 
-  const handleFileSelect = async (files: FileList | null) => {
+  const handleFileSelect = (files: FileList | null) => {
     if (!files || files.length === 0) return;
-    const file = files[0];
-    if (!file.name.endsWith('.zip') && !file.name.endsWith('.cbz')) return;
+    handleImportFiles(fromFileList(files));
+  };
+
+  // Single plain book opens the add modal, anything else goes to batch review
+  // Loose images become drafts for the image book composer
+  const handleImportFiles = async (items: ImportFile[]) => {
+    const drafts = buildImageDrafts(items);
+    if (drafts.length > 0) setImageDrafts(prev => [...prev, ...drafts]);
+    const candidates = buildImportCandidates(items);
+    if (candidates.length === 0) return;
+    const [first] = candidates;
+    if (candidates.length === 1 && !first.mokuroFile && !first.translatedFile) {
+        openAddModal(first.file, first.handle);
+    } else {
+        setBatchItems(await markDuplicates(candidates));
+    }
+  };
 
+  // Duplicates start unselected so a re-dropped folder only adds what is new
+  const markDuplicates = async (candidates: ImportCandidate[]): Promise<ImportCandidate[]> => {
     setLoading(true);
     try {
-        const coverBlob = await extractCoverImage(file);
+        const library = await getAllBooks();
+        const marked: ImportCandidate[] = [];
+        for (const item of candidates) {
+            const fingerprint = await tryComputeFingerprint(item.file);
+            const duplicateOf = fingerprint ? await findDuplicateBook(fingerprint, item.file.size, library) : undefined;
+            marked.push(duplicateOf ? { ...item, fingerprint, duplicateOf, included: false } : { ...item, fingerprint });
+        }
+        return marked;
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const openAddModal = async (file: File, handle?: FileSystemFileHandle) => {
+    if (!isSupportedBookFile(file.name)) return;
+
+    setLoading(true);
+    try {
+        const { cover: coverBlob, comicInfo } = await extractBookInfo(file);
+        const defaults = comicInfo ? getComicInfoDefaults(comicInfo) : {};
+        const title = defaults.title || stripBookExtension(file.name);
+        const fingerprint = await tryComputeFingerprint(file);
         setPendingFile(file);
-        setEditTitle(file.name.replace(/\.(zip|cbz)$/i, ''));
-        setEditType('manga');
+        setPendingHandle(handle || null);
+        setPendingFingerprint(fingerprint);
+        setPendingDuplicate((fingerprint && await findDuplicateBook(fingerprint, file.size, books)) || null);
+        setEditTitle(title);
+        setSeriesFields(defaults.series || guessSeriesFromTitle(title));
+        setEditType(defaults.type || 'manga');
+        setEditDirection(defaults.readingDirection || '');
         setEditCoverBlob(coverBlob);
         setEditCover(coverBlob ? URL.createObjectURL(coverBlob) : null);
-        setEditLanguage('');
+        setEditLanguage(defaults.language || '');
         setEditAnkiTags('');
     } catch (e) {
         alert("Error loading file: " + e);
@@ -91,23 +220,36 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
     }
   };
 
+  // The archive stays the source of truth, so a failed unpack only costs speed
+  const tryUnpackBook = async (id: string, file: Blob) => {
+      try {
+          await unpackBook(id, file);
+      } catch (e) {
+          console.error("Failed to unpack book", e);
+      }
+  };
+
   const confirmAddBook = async () => {
     if (!pendingFile) return;
     setLoading(true);
     try {
         const newBook: Book = {
             id: generateUUID(),
-            title: editTitle || pendingFile.name.replace(/\.(zip|cbz)$/i, ''),
+            title: editTitle || stripBookExtension(pendingFile.name),
             type: editType,
             coverUrl: editCover || '',
             coverBlob: editCoverBlob || undefined,
-            file: pendingFile,
+            ...(pendingHandle ? { fileHandle: pendingHandle, fileSizes: { file: pendingFile.size } } : { file: pendingFile }),
             addedAt: Date.now(),
             progress: 0,
             language: editLanguage || undefined,
-            ankiTags: editAnkiTags || undefined
+            ankiTags: editAnkiTags || undefined,
+            series: getSeriesFromFields(),
+            readingDirection: editDirection || undefined,
+            fingerprint: pendingFingerprint
         };
         await addBook(newBook);
+        if (settings.unpackOnImport) await tryUnpackBook(newBook.id, pendingFile);
         setPendingFile(null);
         await loadBooks();
     } catch (e) {
@@ -117,6 +259,183 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
     }
   };
 
+  /**
+   * Swaps the archive of an existing book, e.g. for a better scan of the same volume.
+   * Progress, bookmarks and metadata stay; pages are unpacked again from the new file.
+   */
+  const replaceBookFile = async (book: Book, file: File, fingerprint?: string) => {
+    await updateBookFile(book.id, file);
+    await updateBookFingerprint(book.id, fingerprint ?? await tryComputeFingerprint(file));
+    if (settings.unpackOnImport) await tryUnpackBook(book.id, file);
+  };
+
+  const confirmReplaceDuplicate = async () => {
+    if (!pendingFile || !pendingDuplicate) return;
+    setLoading(true);
+    try {
+        await replaceBookFile(pendingDuplicate, pendingFile, pendingFingerprint);
+        setPendingFile(null);
+        await loadBooks();
+    } catch (e) {
+        alert("Failed: " + e);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  // --- Books From Images ---
+
+  const updateImageDraft = (patch: Partial<ImageBookDraft>) => {
+      setImageDrafts(prev => prev.length > 0 ? [{ ...prev[0], ...patch }, ...prev.slice(1)] : prev);
+  };
+
+  const moveDraftImage = (from: number, to: number) => {
+      const images = [...imageDrafts[0].images];
+      if (to < 0 || to >= images.length || from === to) return;
+      const [moved] = images.splice(from, 1);
+      images.splice(to, 0, moved);
+      updateImageDraft({ images });
+  };
+
+  const removeDraftImage = (index: number) => {
+      updateImageDraft({ images: imageDrafts[0].images.filter((_, i) => i !== index) });
+  };
+
+  // Packs the draft and hands the archive to the regular add modal for the metadata
+  const confirmImageBook = async () => {
+      const draft = imageDrafts[0];
+      if (!draft || draft.images.length === 0) return;
+      setLoading(true);
+      try {
+          const file = await packImagesToCbz(draft.images, draft.title.trim() || 'images');
+          setImageDrafts(prev => prev.slice(1));
+          await openAddModal(file);
+      } catch (e) {
+          alert("Failed: " + e);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const updateBatchItem = (id: string, patch: Partial<ImportCandidate>) => {
+      setBatchItems(prev => prev ? prev.map(item => item.id === id ? { ...item, ...patch } : item) : prev);
+  };
+
+  const applyToAllBatchItems = (patch: Partial<ImportCandidate>) => {
+      setBatchItems(prev => prev ? prev.map(item => ({ ...item, ...patch })) : prev);
+  };
+
+  // Shared by batch import and library folder scans; picked handles link the file instead of copying it
+  const addCandidateBook = async (item: ImportCandidate, addedAt: number) => {
+      const { cover: coverBlob, comicInfo } = await extractBookInfo(item.file);
+      const defaults = comicInfo ? getComicInfoDefaults(comicInfo) : {};
+      const id = generateUUID();
+      const title = item.title || stripBookExtension(item.file.name);
+      await addBook({
+          id,
+          title,
+          type: item.type,
+          coverUrl: '',
+          coverBlob: coverBlob || undefined,
+          ...(item.handle ? { fileHandle: item.handle, fileSizes: { file: item.file.size }, libraryPath: item.libraryPath } : { file: item.file }),
+          addedAt,
+          progress: 0,
+          language: item.language || defaults.language,
+          series: defaults.series || guessSeriesFromTitle(title),
+          readingDirection: defaults.readingDirection,
+          fingerprint: item.fingerprint ?? await tryComputeFingerprint(item.file)
+      });
+      if (item.mokuroFile) await updateBookMokuro(id, item.mokuroFile);
+      if (item.translatedFile) await updateBookTranslatedFile(id, item.translatedFile);
+      if (settings.unpackOnImport) await tryUnpackBook(id, item.file);
+  };
+
+  const confirmBatchImport = async () => {
+      if (!batchItems) return;
+      const selected = batchItems.filter(item => item.included);
+      setLoading(true);
+      setBatchProgress(0);
+      const now = Date.now();
+      try {
+          for (let i = 0; i < selected.length; i++) {
+              const item = selected[i];
+              if (item.replace && item.duplicateOf) {
+                  await replaceBookFile(item.duplicateOf, item.file, item.fingerprint);
+                  if (item.mokuroFile) await updateBookMokuro(item.duplicateOf.id, item.mokuroFile);
+                  if (item.translatedFile) await updateBookTranslatedFile(item.duplicateOf.id, item.translatedFile);
+              } else {
+                  // Keep volume order in the newest-first library listing
+                  await addCandidateBook(item, now - i);
+              }
+              setBatchProgress(i + 1);
+          }
+          setBatchItems(null);
+      } catch (e) {
+          alert("Error adding book: " + e);
+      } finally {
+          setLoading(false);
+          await loadBooks();
+      }
+  };
+
+  // --- Linked Files & Library Folder ---
+
+  const handleLinkFiles = async () => {
+      try {
+          handleImportFiles(await pickBookFiles());
+      } catch (e) {
+          if (!isPickerAbort(e)) alert("Failed: " + e);
+      }
+  };
+
+  // Adds books for archives that are not in the library yet, ignoring ones deleted before
+  const scanLibraryFolder = async (folder: LibraryFolder, interactive: boolean) => {
+      if (interactive && !(await requestHandlePermission(folder.handle))) return;
+      setLoading(true);
+      try {
+          const library = await getAllBooks();
+          const known = new Set(library.map(b => b.libraryPath).filter(Boolean));
+          folder.ignoredPaths?.forEach(path => known.add(path));
+          const found: ImportCandidate[] = [];
+          const copies: string[] = [];
+          for (const item of buildImportCandidates(await scanDirectory(folder.handle))) {
+              if (known.has(item.path)) continue;
+              // Archives already imported by copy are not linked a second time, nor hashed again on the next scan
+              const fingerprint = await tryComputeFingerprint(item.file);
+              if (fingerprint && await findDuplicateBook(fingerprint, item.file.size, library)) {
+                  copies.push(item.path);
+                  continue;
+              }
+              found.push({ ...item, fingerprint, libraryPath: item.path });
+          }
+          const now = Date.now();
+          for (let i = 0; i < found.length; i++) await addCandidateBook(found[i], now - i);
+          const scanned = { ...folder, lastScan: Date.now(), ...(copies.length > 0 ? { ignoredPaths: [...(folder.ignoredPaths || []), ...copies] } : {}) };
+          await saveLibraryFolder(scanned);
+          setLibraryFolder(scanned);
+          if (interactive) alert(`${t(settings.language, 'libraryScanDone')}: ${found.length}`);
+      } catch (e) {
+          console.error("Library scan failed", e);
+          if (interactive) alert("Failed: " + e);
+      } finally {
+          setLoading(false);
+          await loadBooks();
+      }
+  };
+
+  const handleLibraryFolder = async () => {
+      if (libraryFolder) return scanLibraryFolder(libraryFolder, true);
+      try {
+          const handle = await pickLibraryFolder();
+          const folder: LibraryFolder = { id: '', handle, name: handle.name };
+          await saveLibraryFolder(folder);
+          setLibraryFolder(folder);
+          await scanLibraryFolder(folder, true);
+      } catch (e) {
+          if (!isPickerAbort(e)) alert("Failed: " + e);
+      }
+  };
+
   // --- Editing Logic ---
   const handleEditClick = (e: React.MouseEvent, book: Book) => {
       e.stopPropagation();
@@ -126,6 +445,8 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
       setEditCoverBlob(book.coverBlob || null);
       setEditLanguage(book.language || '');
       setEditAnkiTags(book.ankiTags || '');
+      setSeriesFields(book.series);
+      setEditDirection(book.readingDirection || '');
   };
 
   const handleStatsClick = (e: React.MouseEvent, book: Book) => {
@@ -145,13 +466,13 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
   const handleEditFileReplace = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (editingBook && e.target.files && e.target.files[0]) {
           const file = e.target.files[0];
-          if (!file.name.endsWith('.zip') && !file.name.endsWith('.cbz')) {
+          if (!isSupportedBookFile(file.name)) {
               alert("Invalid format"); return;
           }
           if(confirm(t(settings.language, 'replaceFile') + "?")) {
                setLoading(true);
                try {
-                   await updateBookFile(editingBook.id, file);
+                   await replaceBookFile(editingBook, file);
                    alert("File replaced successfully!");
                } catch(e) { alert("Failed: " + e); }
                setLoading(false);
@@ -159,6 +480,26 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
       }
   };
 
+  const handleToggleUnpacked = async () => {
+      if (!editingBook) return;
+      setLoading(true);
+      try {
+          if (editingBook.unpackedPages) {
+              await deleteBookPages(editingBook.id);
+          } else {
+              const archive = await getBookArchive(editingBook);
+              if (archive) await unpackBook(editingBook.id, archive);
+          }
+          const updated = (await getAllBooks()).find(b => b.id === editingBook.id);
+          if (updated) setEditingBook({ ...editingBook, unpackedPages: updated.unpackedPages, fileSizes: updated.fileSizes });
+          await loadBooks();
+      } catch (e) {
+          alert("Failed: " + e);
+      } finally {
+          setLoading(false);
+      }
+  };
+
   const saveBookEdits = async () => {
       if (!editingBook) return;
       setLoading(true);
@@ -170,6 +511,8 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
           }
           await updateBookLanguage(editingBook.id, editLanguage);
           await updateBookAnkiTags(editingBook.id, editAnkiTags);
+          await updateBookSeries(editingBook.id, getSeriesFromFields());
+          await updateBookReadingDirection(editingBook.id, editDirection || undefined);
           setEditingBook(null);
           await loadBooks();
       } catch (e) {
@@ -220,13 +563,50 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
   };
   // ---------------------
 
+  // Trashed library books are ignored by scans, otherwise the next scan would add them again
+  const setLibraryPathIgnored = async (path: string | undefined, ignored: boolean) => {
+      if (!path || !libraryFolder) return;
+      const others = (libraryFolder.ignoredPaths || []).filter(p => p !== path);
+      const folder = { ...libraryFolder, ignoredPaths: ignored ? [...others, path] : others };
+      await saveLibraryFolder(folder);
+      setLibraryFolder(folder);
+  };
+
+  // Moves the book to the trash without confirmation; it can be restored from there
   const handleDelete = async (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
-      // Directly delete without confirmation as requested
-      await deleteBook(id);
+      const book = books.find(b => b.id === id);
+      await trashBook(id);
+      await setLibraryPathIgnored(book?.libraryPath, true);
       await loadBooks();
   };
 
+  const handleRestoreBook = async (book: Book) => {
+      await restoreBook(book.id);
+      await setLibraryPathIgnored(book.libraryPath, false);
+      await loadBooks();
+  };
+
+  const handleDeleteForever = async (ids: string[]) => {
+      if (ids.length === 0 || !confirm(t(settings.language, 'deleteForeverConfirm'))) return;
+      setLoading(true);
+      try {
+          for (const id of ids) await deleteBook(id);
+      } catch (e) {
+          alert("Failed: " + e);
+      } finally {
+          setLoading(false);
+          await loadBooks();
+      }
+  };
+
+  // Whole days until the auto purge, or null when trashed books are kept
+  const getDaysUntilPurge = (book: Book): number | null => {
+      const days = settings.trashRetentionDays ?? 30;
+      if (!(days > 0) || !book.deletedAt) return null;
+      return Math.max(0, Math.ceil((book.deletedAt + days * 86400000 - Date.now()) / 86400000));
+  };
+
   const handleMokuroUpload = async (e: React.ChangeEvent<HTMLInputElement>, bookId: string) => {
       if (e.target.files && e.target.files[0]) {
           e.stopPropagation(); 
@@ -251,14 +631,17 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
 
   const handleDrag = (e: React.DragEvent) => {
       e.preventDefault(); e.stopPropagation();
+      // Reordering pages in the composer is not a file drop
+      if (!e.dataTransfer.types.includes('Files')) return;
       if (e.type === "dragenter" || e.type === "dragover") setDragActive(true);
       else if (e.type === "dragleave") setDragActive(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
       e.preventDefault(); e.stopPropagation();
       setDragActive(false);
-      if (e.dataTransfer.files && e.dataTransfer.files[0]) handleFileSelect(e.dataTransfer.files);
+      if (!e.dataTransfer.files || !e.dataTransfer.files[0]) return;
+      handleImportFiles(await collectDroppedFiles(e.dataTransfer));
   };
 
   const toggleFullscreen = () => {
@@ -269,12 +652,17 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
   const toggleViewMode = () => {
       setSettings({
           ...settings,
-          libraryViewMode: settings.libraryViewMode === 'grid' ? 'list' : 'grid'
+          libraryViewMode: settings.libraryViewMode === 'grid' ? 'list' : settings.libraryViewMode === 'list' ? 'series' : 'grid'
       });
+      setOpenSeries(null);
   };
 
   const isDark = settings.theme === 'dark';
 
+  const { groups: seriesGroups, ungrouped: ungroupedBooks } = groupBooksBySeries(books);
+  const seriesNames = seriesGroups.map(g => g.name);
+  const expandedSeries = seriesGroups.find(g => g.name === openSeries);
+
   const formatTime = (ms: number) => {
       if (ms < 60000) return "< 1m";
       const h = Math.floor(ms / 3600000);
@@ -369,6 +757,64 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
 
   const currentStats = getStatsToDisplay();
 
+  // Shared by the grid view and the series view
+  const renderGridItem = (book: Book) => (
+    <div key={book.id} className={`group relative rounded-xl overflow-hidden shadow-xl hover:shadow-2xl hover:shadow-primary/10 transition-all duration-300 hover:-translate-y-1 cursor-pointer border ${isDark ? 'bg-surfaceLight border-zinc-800 hover:border-zinc-700' : 'bg-white border-zinc-200 hover:border-zinc-300'}`} onClick={() => onOpenBook(book)}>
+        {/* ... Grid item content ... */}
+        <div className="aspect-[2/3] w-full relative bg-zinc-900 overflow-hidden">
+            {book.coverUrl ? (
+                <img src={book.coverUrl} alt={book.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
+            ) : (
+                <div className="w-full h-full flex items-center justify-center text-zinc-600"><BookOpen size={32} /></div>
+            )}
+            {book.progress !== undefined && book.progress > 0 && (
+            <div className="absolute bottom-0 left-0 right-0 h-1 bg-zinc-800">
+                <div className="h-full bg-accent" style={{ width: `${getBookProgressPercent(book)}%` }}></div>
+            </div> 
+            )}
+            <div className="absolute top-2 right-2 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                <button onClick={(e) => handleStatsClick(e, book)} className="p-1.5 md:p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-md shadow-lg">
+                    <BarChart2 size={14} className="md:w-4 md:h-4" />
+                </button>
+                <button onClick={(e) => handleEditClick(e, book)} className="p-1.5 md:p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-md shadow-lg">
+                    <Edit2 size={14} className="md:w-4 md:h-4" />
+                </button>
+                <button onClick={(e) => handleDelete(e, book.id)} className="p-1.5 md:p-2 bg-red-500/80 hover:bg-red-600 text-white rounded-full backdrop-blur-md shadow-lg">
+                    <Trash2 size={14} className="md:w-4 md:h-4" />
+                </button>
+            </div>
+            <div className="absolute bottom-2 left-2 right-2 flex justify-between items-end gap-1">
+                {!!book.fileSizes?.mokuroFile && <span className="px-1.5 py-0.5 bg-accent/90 text-black text-[10px] md:text-xs font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1"><FileText size={10} className="md:w-3 md:h-3" /> OCR</span>}
+                {!!book.fileSizes?.translatedFile && <span className="px-1.5 py-0.5 bg-green-500/90 text-black text-[10px] md:text-xs font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1"><Globe size={10} className="md:w-3 md:h-3" /> TR</span>}
+                {book.fileHandle && <span className="px-1.5 py-0.5 bg-zinc-200/90 text-black text-[10px] md:text-xs font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1" title={book.libraryPath || book.fileHandle.name}><Link size={10} className="md:w-3 md:h-3" /></span>}
+            </div>
+            {book.type === 'webtoon' && (
+                <div className="absolute top-2 left-2">
+                    <span className="px-1.5 py-0.5 bg-primary/90 text-white text-[10px] font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1">
+                        <Layout size={10}/> WEBTOON
+                    </span>
+                </div>
+            )}
+        </div>
+        <div className="p-2 md:p-4">
+        <h3 className={`font-semibold truncate text-xs md:text-sm ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`} title={book.title}>{book.title}</h3>
+        <div className="flex justify-between items-center mt-2 md:mt-3">
+            <span className="text-[10px] md:text-xs text-zinc-500">{new Date(book.addedAt).toLocaleDateString()}</span>
+            <div className="flex gap-2">
+                <label className="text-[10px] md:text-xs flex items-center gap-1 text-zinc-400 hover:text-green-500 transition-colors cursor-pointer" onClick={(e) => e.stopPropagation()} title="Upload Translation">
+                    <Globe size={10} className="md:w-3 md:h-3" />
+                    <input type="file" accept={BOOK_FILE_ACCEPT} className="hidden" onChange={(e) => handleTransUpload(e, book.id)} />
+                </label>
+                <label className="text-[10px] md:text-xs flex items-center gap-1 text-zinc-400 hover:text-primary transition-colors cursor-pointer" onClick={(e) => e.stopPropagation()} title="Attach Mokuro">
+                    <Upload size={10} className="md:w-3 md:h-3" />
+                    <input type="file" accept=".mokuro" className="hidden" onChange={(e) => handleMokuroUpload(e, book.id)} />
+                </label>
+            </div>
+        </div>
+        </div>
+    </div>
+  );
+
   return (
     <div className={`min-h-screen p-4 md:p-8 ${isDark ? 'text-zinc-100' : 'text-zinc-900'}`} onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop}>
       <header className="mb-8 flex justify-between items-center">
@@ -382,8 +828,8 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
             <button onClick={() => { setStatsBook(null); setShowStats(true); }} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title="Statistics">
                 <BarChart2 size={20} />
             </button>
-            <button onClick={toggleViewMode} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title={settings.libraryViewMode === 'grid' ? t(settings.language, 'listView') : t(settings.language, 'gridView')}>
-                {settings.libraryViewMode === 'grid' ? <List size={20} /> : <Grid size={20} />}
+            <button onClick={toggleViewMode} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title={settings.libraryViewMode === 'grid' ? t(settings.language, 'listView') : settings.libraryViewMode === 'list' ? t(settings.language, 'seriesView') : t(settings.language, 'gridView')}>
+                {settings.libraryViewMode === 'grid' ? <List size={20} /> : settings.libraryViewMode === 'list' ? <Layers size={20} /> : <Grid size={20} />}
             </button>
             <button onClick={toggleFullscreen} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`}>
                 {isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}
@@ -391,14 +837,71 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
             <button onClick={() => setShowSettings(true)} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`}>
                 <Settings size={20} />
             </button>
+            {trashedBooks.length > 0 && (
+                <button onClick={() => setShowTrash(true)} className={`relative p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title={t(settings.language, 'trash')}>
+                    <Trash size={20} />
+                    <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">{trashedBooks.length}</span>
+                </button>
+            )}
+            {isFileSystemAccessSupported() && (
+                <>
+                    <button onClick={handleLibraryFolder} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title={libraryFolder ? `${t(settings.language, 'rescanLibraryFolder')}: ${libraryFolder.name}` : t(settings.language, 'setLibraryFolder')}>
+                        <FolderSync size={20} />
+                    </button>
+                    <button onClick={handleLinkFiles} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title={t(settings.language, 'linkFiles')}>
+                        <Link size={20} />
+                    </button>
+                </>
+            )}
+            <label className={`p-2 rounded-lg cursor-pointer transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`} title={t(settings.language, 'importFolder')}>
+                <FolderOpen size={20} />
+                <input type="file" className="hidden" multiple {...{ webkitdirectory: '' }} onChange={(e) => handleFileSelect(e.target.files)} />
+            </label>
             <label className="flex items-center gap-2 px-3 py-2 bg-primary hover:bg-blue-600 text-white rounded-lg cursor-pointer transition-colors shadow-lg shadow-blue-900/20">
                 <Plus size={20} />
                 {/* Text Removed as requested */}
-                <input type="file" className="hidden" accept=".zip,.cbz" onChange={(e) => handleFileSelect(e.target.files)} />
+                <input type="file" className="hidden" multiple accept={`${BOOK_FILE_ACCEPT},.mokuro,image/*`} onChange={(e) => handleFileSelect(e.target.files)} />
             </label>
         </div>
       </header>
 
+      {/* Trash Modal */}
+      {showTrash && (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+              <div className={`border rounded-2xl w-full max-w-lg overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh] ${isDark ? 'bg-surfaceLight border-white/10' : 'bg-white border-zinc-200'}`}>
+                  <div className={`p-4 border-b flex justify-between items-center ${isDark ? 'border-white/5 bg-black/20' : 'border-zinc-100 bg-zinc-50'}`}>
+                      <h2 className={`font-bold text-lg ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`}>{t(settings.language, 'trash')} <span className="text-sm font-normal text-zinc-500">({trashedBooks.length})</span></h2>
+                      <button onClick={() => setShowTrash(false)} className={`p-1 rounded-full ${isDark ? 'hover:bg-white/10 text-zinc-400' : 'hover:bg-zinc-200 text-zinc-500'}`}><X size={20}/></button>
+                  </div>
+                  <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-zinc-500/10">
+                      {trashedBooks.length === 0 && <p className="p-6 text-center text-sm text-zinc-500">{t(settings.language, 'trashEmpty')}</p>}
+                      {trashedBooks.map(book => {
+                          const daysLeft = getDaysUntilPurge(book);
+                          return (
+                              <div key={book.id} className="flex items-center gap-3 px-4 py-2">
+                                  <div className="min-w-0 flex-1">
+                                      <p className={`text-sm font-medium truncate ${isDark ? 'text-zinc-200' : 'text-zinc-800'}`} title={book.title}>{book.title}</p>
+                                      <p className="text-[10px] text-zinc-500">
+                                          {new Date(book.deletedAt!).toLocaleDateString()} · {Math.round(getBookProgressPercent(book))}%
+                                          {daysLeft !== null && ` · ${daysLeft} ${t(settings.language, 'daysUntilPurge')}`}
+                                      </p>
+                                  </div>
+                                  <button onClick={() => handleRestoreBook(book)} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/10' : 'text-zinc-500 hover:text-black hover:bg-zinc-100'}`} title={t(settings.language, 'restoreFromTrash')}><ArchiveRestore size={16}/></button>
+                                  <button onClick={() => handleDeleteForever([book.id])} className="p-2 rounded-lg text-red-500 hover:bg-red-500/10 transition-colors" title={t(settings.language, 'deleteForever')}><Trash2 size={16}/></button>
+                              </div>
+                          );
+                      })}
+                  </div>
+                  <div className={`p-4 border-t flex gap-3 ${isDark ? 'bg-black/20 border-white/5' : 'bg-zinc-50 border-zinc-200'}`}>
+                      <button onClick={() => setShowTrash(false)} className={`flex-1 py-3 text-sm font-medium rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-zinc-600 hover:text-black hover:bg-zinc-200'}`}>{t(settings.language, 'cancel')}</button>
+                      <button onClick={() => handleDeleteForever(trashedBooks.map(b => b.id))} disabled={loading || trashedBooks.length === 0} className="flex-[2] py-3 bg-red-500/80 hover:bg-red-600 disabled:opacity-50 text-white rounded-xl text-sm font-bold transition-all active:scale-95 flex items-center justify-center gap-2">
+                          {loading ? <Loader2 size={16} className="animate-spin"/> : <Trash2 size={16}/>} {t(settings.language, 'emptyTrash')}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* Stats Modal */}
       {showStats && (
           <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
@@ -468,6 +971,156 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
           </div>
       )}
 
+      {/* Batch Import Review */}
+      {batchItems && (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+              <div className={`border rounded-2xl w-full max-w-3xl overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200 ${isDark ? 'bg-surfaceLight border-white/10' : 'bg-white border-zinc-200'}`}>
+                  <div className={`p-4 border-b flex justify-between items-center ${isDark ? 'border-white/5 bg-black/20' : 'border-zinc-100 bg-zinc-50'}`}>
+                      <h2 className={`font-bold text-lg ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`}>
+                          {t(settings.language, 'batchImport')} ({batchItems.filter(i => i.included).length}/{batchItems.length})
+                      </h2>
+                      <button onClick={() => !loading && setBatchItems(null)} className={`p-1 rounded-full ${isDark ? 'hover:bg-white/10 text-zinc-400' : 'hover:bg-zinc-200 text-zinc-500'}`}><X size={20}/></button>
+                  </div>
+
+                  <div className={`px-4 py-3 border-b flex flex-wrap items-center gap-3 text-xs ${isDark ? 'border-white/5' : 'border-zinc-100'}`}>
+                      <span className="uppercase font-bold text-zinc-500">{t(settings.language, 'applyToAll')}</span>
+                      <select 
+                          defaultValue=""
+                          onChange={(e) => { if (e.target.value) applyToAllBatchItems({ type: e.target.value as 'manga' | 'webtoon' }); }}
+                          className={`border rounded-lg px-2 py-1 outline-none ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                      >
+                          <option value="">{t(settings.language, 'bookType')}</option>
+                          <option value="manga">{t(settings.language, 'manga')}</option>
+                          <option value="webtoon">{t(settings.language, 'webtoon')}</option>
+                      </select>
+                      <select 
+                          defaultValue="-"
+                          onChange={(e) => { if (e.target.value !== '-') applyToAllBatchItems({ language: e.target.value }); }}
+                          className={`border rounded-lg px-2 py-1 outline-none ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                      >
+                          <option value="-">{t(settings.language, 'bookLanguage')}</option>
+                          <option value="">{t(settings.language, 'langDefault')}</option>
+                          {SUPPORTED_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+                      </select>
+                  </div>
+
+                  <div className="max-h-[60vh] overflow-y-auto custom-scrollbar divide-y divide-zinc-500/10">
+                      {batchItems.map(item => (
+                          <div key={item.id} className={`flex items-center gap-3 px-4 py-2 ${item.included ? '' : 'opacity-40'}`}>
+                              <input type="checkbox" checked={item.included} onChange={() => updateBatchItem(item.id, { included: !item.included })} className="accent-primary" />
+                              <div className="flex-1 min-w-0">
+                                  <input 
+                                      type="text" 
+                                      value={item.title} 
+                                      onChange={(e) => updateBatchItem(item.id, { title: e.target.value })}
+                                      className={`w-full border rounded-lg px-2 py-1 text-sm outline-none focus:border-primary transition-colors ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                                  />
+                                  <p className="text-[10px] text-zinc-500 truncate mt-0.5" title={item.path}>{item.path} · {(item.file.size / 1024 / 1024).toFixed(1)} MB</p>
+                                  {item.duplicateOf && (
+                                      <div className="flex items-center gap-2 mt-0.5 text-[10px]">
+                                          <span className="flex items-center gap-1 text-amber-500 truncate" title={item.duplicateOf.title}><Copy size={10}/> {t(settings.language, 'duplicateOf')}: {item.duplicateOf.title}</span>
+                                          <label className="flex items-center gap-1 text-zinc-500 cursor-pointer shrink-0">
+                                              <input type="checkbox" checked={!!item.replace} onChange={() => updateBatchItem(item.id, { replace: !item.replace, included: !item.replace || item.included })} className="accent-primary" />
+                                              {t(settings.language, 'replaceDuplicate')}
+                                          </label>
+                                      </div>
+                                  )}
+                              </div>
+                              <select 
+                                  value={item.type}
+                                  onChange={(e) => updateBatchItem(item.id, { type: e.target.value as 'manga' | 'webtoon' })}
+                                  className={`border rounded-lg px-2 py-1 text-xs outline-none ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                              >
+                                  <option value="manga">{t(settings.language, 'manga')}</option>
+                                  <option value="webtoon">{t(settings.language, 'webtoon')}</option>
+                              </select>
+                              <select 
+                                  value={item.language}
+                                  onChange={(e) => updateBatchItem(item.id, { language: e.target.value })}
+                                  className={`w-24 border rounded-lg px-2 py-1 text-xs outline-none ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                              >
+                                  <option value="">{t(settings.language, 'langDefault')}</option>
+                                  {SUPPORTED_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+                              </select>
+                              <div className="flex gap-1 w-20 justify-end">
+                                  {item.mokuroFile && <span className="px-1.5 py-0.5 bg-accent/90 text-black text-[10px] font-bold rounded flex items-center gap-1" title={item.mokuroFile.name}><FileText size={10} /> OCR</span>}
+                                  {item.translatedFile && <span className="px-1.5 py-0.5 bg-green-500/90 text-black text-[10px] font-bold rounded flex items-center gap-1" title={item.translatedFile.name}><Globe size={10} /> TR</span>}
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+
+                  <div className={`p-4 border-t flex gap-3 ${isDark ? 'bg-black/20 border-white/5' : 'bg-zinc-50 border-zinc-200'}`}>
+                      <button onClick={() => setBatchItems(null)} disabled={loading} className={`flex-1 py-3 text-sm font-medium rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-zinc-600 hover:text-black hover:bg-zinc-200'}`}>{t(settings.language, 'cancel')}</button>
+                      <button onClick={confirmBatchImport} disabled={loading || !batchItems.some(i => i.included)} className="flex-[2] py-3 bg-primary hover:bg-blue-600 disabled:opacity-50 text-white rounded-xl text-sm font-bold shadow-lg shadow-blue-900/20 transition-all active:scale-95 flex items-center justify-center gap-2">
+                          {loading 
+                            ? <><Loader2 size={16} className="animate-spin"/> {batchProgress}/{batchItems.filter(i => i.included).length}</> 
+                            : <><Save size={16}/> {t(settings.language, 'importSelected')}</>}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* Image Book Composer */}
+      {imageDrafts.length > 0 && !pendingFile && !editingBook && (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+              <div className={`border rounded-2xl w-full max-w-3xl overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200 ${isDark ? 'bg-surfaceLight border-white/10' : 'bg-white border-zinc-200'}`}>
+                  <div className={`p-4 border-b flex justify-between items-center ${isDark ? 'border-white/5 bg-black/20' : 'border-zinc-100 bg-zinc-50'}`}>
+                      <h2 className={`font-bold text-lg flex items-center gap-2 ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`}>
+                          <ImagePlus size={20}/> {t(settings.language, 'createFromImages')} ({imageDrafts[0].images.length})
+                          {imageDrafts.length > 1 && <span className="text-xs font-normal text-zinc-500">+{imageDrafts.length - 1}</span>}
+                      </h2>
+                      <button onClick={() => !loading && setImageDrafts(prev => prev.slice(1))} className={`p-1 rounded-full ${isDark ? 'hover:bg-white/10 text-zinc-400' : 'hover:bg-zinc-200 text-zinc-500'}`}><X size={20}/></button>
+                  </div>
+
+                  <div className={`px-4 py-3 border-b flex items-center gap-3 ${isDark ? 'border-white/5' : 'border-zinc-100'}`}>
+                      <input 
+                          type="text" 
+                          value={imageDrafts[0].title} 
+                          onChange={(e) => updateImageDraft({ title: e.target.value })}
+                          placeholder={t(settings.language, 'title')}
+                          className={`flex-1 border rounded-lg px-3 py-2 text-sm outline-none focus:border-primary transition-colors ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                      />
+                      <button onClick={() => updateImageDraft({ images: sortImageFiles(imageDrafts[0].images) })} className={`px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-1 transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-zinc-600 hover:text-black hover:bg-zinc-200'}`}>
+                          <ArrowDownAZ size={14}/> {t(settings.language, 'sortByName')}
+                      </button>
+                  </div>
+                  <p className="px-4 pt-3 text-[10px] text-zinc-500">{t(settings.language, 'reorderPagesHint')}</p>
+
+                  <div className="max-h-[55vh] overflow-y-auto custom-scrollbar p-4 grid grid-cols-3 sm:grid-cols-5 md:grid-cols-6 gap-3">
+                      {imageDrafts[0].images.map((image, index) => (
+                          <div 
+                              key={`${image.name}:${index}`}
+                              draggable
+                              onDragStart={(e) => { setDragPageIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+                              onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
+                              onDrop={(e) => { e.preventDefault(); e.stopPropagation(); if (dragPageIndex !== null) moveDraftImage(dragPageIndex, index); setDragPageIndex(null); }}
+                              onDragEnd={() => setDragPageIndex(null)}
+                              className={`group relative aspect-[2/3] rounded-lg overflow-hidden border cursor-move ${dragPageIndex === index ? 'opacity-40' : ''} ${isDark ? 'border-white/10 bg-black/40' : 'border-zinc-200 bg-zinc-100'}`}
+                              title={image.name}
+                          >
+                              <ImageThumb file={image} />
+                              <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/70 text-white text-[10px] font-bold rounded">{index + 1}</span>
+                              <button onClick={() => removeDraftImage(index)} className="absolute top-1 right-1 p-1 bg-black/70 hover:bg-red-500 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity"><X size={10}/></button>
+                              <div className="absolute bottom-1 inset-x-1 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                                  <button onClick={() => moveDraftImage(index, index - 1)} disabled={index === 0} className="p-1 bg-black/70 hover:bg-primary text-white rounded disabled:opacity-30"><ChevronLeft size={12}/></button>
+                                  <button onClick={() => moveDraftImage(index, index + 1)} disabled={index === imageDrafts[0].images.length - 1} className="p-1 bg-black/70 hover:bg-primary text-white rounded disabled:opacity-30"><ChevronRight size={12}/></button>
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+
+                  <div className={`p-4 border-t flex gap-3 ${isDark ? 'bg-black/20 border-white/5' : 'bg-zinc-50 border-zinc-200'}`}>
+                      <button onClick={() => setImageDrafts(prev => prev.slice(1))} disabled={loading} className={`flex-1 py-3 text-sm font-medium rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-zinc-600 hover:text-black hover:bg-zinc-200'}`}>{t(settings.language, 'cancel')}</button>
+                      <button onClick={confirmImageBook} disabled={loading || imageDrafts[0].images.length === 0} className="flex-[2] py-3 bg-primary hover:bg-blue-600 disabled:opacity-50 text-white rounded-xl text-sm font-bold shadow-lg shadow-blue-900/20 transition-all active:scale-95 flex items-center justify-center gap-2">
+                          {loading ? <Loader2 size={16} className="animate-spin"/> : <Save size={16}/>} {t(settings.language, 'createBook')}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* Edit Modal... (Code remains unchanged, just ensuring it renders correctly) */}
       {(pendingFile || editingBook) && (
           <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
@@ -478,6 +1131,12 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                       <button onClick={() => { setPendingFile(null); setEditingBook(null); }} className={`p-1 rounded-full ${isDark ? 'hover:bg-white/10 text-zinc-400' : 'hover:bg-zinc-200 text-zinc-500'}`}><X size={20}/></button>
                   </div>
                   <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+                      {pendingFile && pendingDuplicate && (
+                          <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-xs text-amber-500">
+                              <Copy size={14} className="shrink-0 mt-0.5"/>
+                              <span>{t(settings.language, 'duplicateFound')}: <b>{pendingDuplicate.title}</b></span>
+                          </div>
+                      )}
                       <div className="flex gap-4">
                           <div className={`w-32 aspect-[2/3] rounded-lg overflow-hidden border flex-shrink-0 relative group ${isDark ? 'bg-black/40 border-white/10' : 'bg-zinc-100 border-zinc-200'}`}>
                               {editCover ? <img src={editCover} className="w-full h-full object-cover"/> : <div className="w-full h-full flex items-center justify-center text-zinc-500"><BookOpen/></div>}
@@ -519,6 +1178,19 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                                 </select>
                               </div>
 
+                              <div>
+                                <label className="text-[10px] uppercase font-bold text-zinc-500 mb-1 block">{t(settings.language, 'direction')}</label>
+                                <select 
+                                    value={editDirection} 
+                                    onChange={(e) => setEditDirection(e.target.value as ReadingDirection | '')}
+                                    className={`w-full border rounded-lg px-3 py-2 text-sm outline-none focus:border-primary transition-colors ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                                >
+                                    <option value="">{t(settings.language, 'langDefault')}</option>
+                                    <option value="ltr">{t(settings.language, 'ltr')}</option>
+                                    <option value="rtl">{t(settings.language, 'rtl')}</option>
+                                </select>
+                              </div>
+
                               <div>
                                 <label className="text-[10px] uppercase font-bold text-zinc-500 mb-1 block">{t(settings.language, 'ankiTags')}</label>
                                 <div className={`flex items-center gap-2 border rounded-lg px-3 py-2 ${isDark ? 'bg-black/40 border-white/10' : 'bg-white border-zinc-300'}`}>
@@ -533,6 +1205,47 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                                 </div>
                               </div>
 
+                              <div>
+                                <label className="text-[10px] uppercase font-bold text-zinc-500 mb-1 block">{t(settings.language, 'series')}</label>
+                                <div className="flex gap-2">
+                                    <div className={`flex-1 flex items-center gap-2 border rounded-lg px-3 py-2 ${isDark ? 'bg-black/40 border-white/10' : 'bg-white border-zinc-300'}`}>
+                                        <Layers size={12} className="text-zinc-500"/>
+                                        <input 
+                                            type="text" 
+                                            list="series-names"
+                                            value={editSeriesName} 
+                                            onChange={(e) => setEditSeriesName(e.target.value)}
+                                            className={`w-full bg-transparent text-sm outline-none ${isDark ? 'text-white' : 'text-zinc-900'}`}
+                                        />
+                                        <datalist id="series-names">
+                                            {seriesNames.map(name => <option key={name} value={name} />)}
+                                        </datalist>
+                                    </div>
+                                    <input 
+                                        type="number" 
+                                        value={editVolume} 
+                                        onChange={(e) => setEditVolume(e.target.value)}
+                                        placeholder={t(settings.language, 'volume')}
+                                        className={`w-16 border rounded-lg px-2 py-2 text-sm outline-none focus:border-primary transition-colors ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                                    />
+                                    <input 
+                                        type="number" 
+                                        value={editChapter} 
+                                        onChange={(e) => setEditChapter(e.target.value)}
+                                        placeholder={t(settings.language, 'chapter')}
+                                        className={`w-16 border rounded-lg px-2 py-2 text-sm outline-none focus:border-primary transition-colors ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                                    />
+                                    <input 
+                                        type="number" 
+                                        value={editSortKey} 
+                                        onChange={(e) => setEditSortKey(e.target.value)}
+                                        placeholder={t(settings.language, 'seriesOrder')}
+                                        title={t(settings.language, 'seriesOrderHint')}
+                                        className={`w-16 border rounded-lg px-2 py-2 text-sm outline-none focus:border-primary transition-colors ${isDark ? 'bg-black/40 border-white/10 text-white' : 'bg-white border-zinc-300 text-zinc-900'}`}
+                                    />
+                                </div>
+                              </div>
+
                               {pendingFile && (
                                   <div>
                                       <label className="text-[10px] uppercase font-bold text-zinc-500 mb-1 block">{t(settings.language, 'bookType')}</label>
@@ -579,9 +1292,18 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                                          <label className={`flex items-center justify-center w-full p-2 border rounded-lg cursor-pointer transition-colors text-xs gap-2 ${isDark ? 'border-white/10 hover:bg-white/5 text-zinc-400' : 'border-zinc-300 hover:bg-zinc-50 text-zinc-600'}`}>
                                             <Upload size={14}/>
                                             {t(settings.language, 'replaceFile')}
-                                            <input type="file" accept=".zip,.cbz" onChange={handleEditFileReplace} className="hidden" />
+                                            <input type="file" accept={BOOK_FILE_ACCEPT} onChange={handleEditFileReplace} className="hidden" />
                                          </label>
-                                         <p className="text-[10px] text-zinc-500 mt-1">{t(settings.language, 'fileSize')}: {editingBook.file.size ? (editingBook.file.size / 1024 / 1024).toFixed(2) + ' MB' : 'Unknown'}</p>
+                                         <p className="text-[10px] text-zinc-500 mt-1">{t(settings.language, 'fileSize')}: {editingBook.fileSizes?.file ? (editingBook.fileSizes.file / 1024 / 1024).toFixed(2) + ' MB' : 'Unknown'}</p>
+                                     </div>
+                                     <div>
+                                         <button onClick={handleToggleUnpacked} disabled={loading} className={`flex items-center justify-center w-full p-2 border rounded-lg transition-colors text-xs gap-2 disabled:opacity-50 ${isDark ? 'border-white/10 hover:bg-white/5 text-zinc-400' : 'border-zinc-300 hover:bg-zinc-50 text-zinc-600'}`}>
+                                            {loading ? <Loader2 size={14} className="animate-spin"/> : <Layers size={14}/>}
+                                            {editingBook.unpackedPages ? t(settings.language, 'removeUnpackedPages') : t(settings.language, 'unpackPages')}
+                                         </button>
+                                         {editingBook.unpackedPages && (
+                                             <p className="text-[10px] text-zinc-500 mt-1">{editingBook.unpackedPages.length} {t(settings.language, 'pagesStored')}{editingBook.fileSizes?.pages ? ` · ${(editingBook.fileSizes.pages / 1024 / 1024).toFixed(2)} MB` : ''}</p>
+                                         )}
                                      </div>
                                   </div>
                               )}
@@ -590,8 +1312,13 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                   </div>
                   <div className={`p-4 border-t flex gap-3 ${isDark ? 'bg-black/20 border-white/5' : 'bg-zinc-50 border-zinc-200'}`}>
                       <button onClick={() => { setPendingFile(null); setEditingBook(null); }} className={`flex-1 py-3 text-sm font-medium rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white hover:bg-white/5' : 'text-zinc-600 hover:text-black hover:bg-zinc-200'}`}>{t(settings.language, 'cancel')}</button>
+                      {pendingFile && pendingDuplicate && (
+                          <button onClick={confirmReplaceDuplicate} className={`flex-1 py-3 text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 ${isDark ? 'text-amber-400 hover:bg-amber-500/10' : 'text-amber-600 hover:bg-amber-50'}`} title={t(settings.language, 'replaceFileHint')}>
+                              <Replace size={16}/> {t(settings.language, 'replaceDuplicate')}
+                          </button>
+                      )}
                       <button onClick={pendingFile ? confirmAddBook : saveBookEdits} className="flex-[2] py-3 bg-primary hover:bg-blue-600 text-white rounded-xl text-sm font-bold shadow-lg shadow-blue-900/20 transition-all active:scale-95 flex items-center justify-center gap-2">
-                          <Save size={16}/> {pendingFile ? t(settings.language, 'confirmAdd') : t(settings.language, 'confirmEdit')}
+                          <Save size={16}/> {pendingFile ? t(settings.language, pendingDuplicate ? 'addAnyway' : 'confirmAdd') : t(settings.language, 'confirmEdit')}
                       </button>
                   </div>
               </div>
@@ -601,62 +1328,61 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
       {/* Books Grid */}
       {settings.libraryViewMode === 'grid' ? (
         <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-6">
-            {books.map(book => (
-            <div key={book.id} className={`group relative rounded-xl overflow-hidden shadow-xl hover:shadow-2xl hover:shadow-primary/10 transition-all duration-300 hover:-translate-y-1 cursor-pointer border ${isDark ? 'bg-surfaceLight border-zinc-800 hover:border-zinc-700' : 'bg-white border-zinc-200 hover:border-zinc-300'}`} onClick={() => onOpenBook(book)}>
-                {/* ... Grid item content ... */}
-                <div className="aspect-[2/3] w-full relative bg-zinc-900 overflow-hidden">
-                    {book.coverUrl ? (
-                        <img src={book.coverUrl} alt={book.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
-                    ) : (
-                        <div className="w-full h-full flex items-center justify-center text-zinc-600"><BookOpen size={32} /></div>
-                    )}
-                    {book.progress !== undefined && book.progress > 0 && (
-                    <div className="absolute bottom-0 left-0 right-0 h-1 bg-zinc-800">
-                        <div className="h-full bg-accent" style={{ width: `${(book.progress / 100) * 100}%` }}></div>
-                    </div> 
-                    )}
-                    <div className="absolute top-2 right-2 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                        <button onClick={(e) => handleStatsClick(e, book)} className="p-1.5 md:p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-md shadow-lg">
-                            <BarChart2 size={14} className="md:w-4 md:h-4" />
-                        </button>
-                        <button onClick={(e) => handleEditClick(e, book)} className="p-1.5 md:p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-md shadow-lg">
-                            <Edit2 size={14} className="md:w-4 md:h-4" />
-                        </button>
-                        <button onClick={(e) => handleDelete(e, book.id)} className="p-1.5 md:p-2 bg-red-500/80 hover:bg-red-600 text-white rounded-full backdrop-blur-md shadow-lg">
-                            <Trash2 size={14} className="md:w-4 md:h-4" />
-                        </button>
-                    </div>
-                    <div className="absolute bottom-2 left-2 right-2 flex justify-between items-end gap-1">
-                        {book.mokuroFile && <span className="px-1.5 py-0.5 bg-accent/90 text-black text-[10px] md:text-xs font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1"><FileText size={10} className="md:w-3 md:h-3" /> OCR</span>}
-                        {book.translatedFile && <span className="px-1.5 py-0.5 bg-green-500/90 text-black text-[10px] md:text-xs font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1"><Globe size={10} className="md:w-3 md:h-3" /> TR</span>}
-                    </div>
-                    {book.type === 'webtoon' && (
-                        <div className="absolute top-2 left-2">
-                            <span className="px-1.5 py-0.5 bg-primary/90 text-white text-[10px] font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1">
-                                <Layout size={10}/> WEBTOON
-                            </span>
-                        </div>
-                    )}
-                </div>
-                <div className="p-2 md:p-4">
-                <h3 className={`font-semibold truncate text-xs md:text-sm ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`} title={book.title}>{book.title}</h3>
-                <div className="flex justify-between items-center mt-2 md:mt-3">
-                    <span className="text-[10px] md:text-xs text-zinc-500">{new Date(book.addedAt).toLocaleDateString()}</span>
-                    <div className="flex gap-2">
-                        <label className="text-[10px] md:text-xs flex items-center gap-1 text-zinc-400 hover:text-green-500 transition-colors cursor-pointer" onClick={(e) => e.stopPropagation()} title="Upload Translation">
-                            <Globe size={10} className="md:w-3 md:h-3" />
-                            <input type="file" accept=".zip,.cbz" className="hidden" onChange={(e) => handleTransUpload(e, book.id)} />
-                        </label>
-                        <label className="text-[10px] md:text-xs flex items-center gap-1 text-zinc-400 hover:text-primary transition-colors cursor-pointer" onClick={(e) => e.stopPropagation()} title="Attach Mokuro">
-                            <Upload size={10} className="md:w-3 md:h-3" />
-                            <input type="file" accept=".mokuro" className="hidden" onChange={(e) => handleMokuroUpload(e, book.id)} />
-                        </label>
-                    </div>
-                </div>
-                </div>
-            </div>
-            ))}
+            {books.map(renderGridItem)}
         </div>
+      ) : settings.libraryViewMode === 'series' ? (
+          expandedSeries ? (
+              <div>
+                  <div className="flex items-center gap-3 mb-4">
+                      <button onClick={() => setOpenSeries(null)} className={`p-2 rounded-lg transition-colors ${isDark ? 'text-zinc-400 hover:text-white bg-surfaceLight' : 'text-zinc-500 hover:text-black bg-white border border-zinc-200 shadow-sm'}`}>
+                          <ChevronLeft size={20} />
+                      </button>
+                      <h2 className={`font-bold text-lg truncate ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`}>{expandedSeries.name}</h2>
+                      <span className="text-xs text-zinc-500 shrink-0">{expandedSeries.finishedCount}/{expandedSeries.books.length} {t(settings.language, 'volumesRead')}</span>
+                  </div>
+                  <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-6">
+                      {expandedSeries.books.map(renderGridItem)}
+                  </div>
+              </div>
+          ) : (
+              <div className="space-y-8">
+                  <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-6">
+                      {seriesGroups.map(group => (
+                          <div key={group.name} className={`group relative rounded-xl overflow-hidden shadow-xl hover:shadow-2xl hover:shadow-primary/10 transition-all duration-300 hover:-translate-y-1 cursor-pointer border ${isDark ? 'bg-surfaceLight border-zinc-800 hover:border-zinc-700' : 'bg-white border-zinc-200 hover:border-zinc-300'}`} onClick={() => setOpenSeries(group.name)}>
+                              <div className="aspect-[2/3] w-full relative bg-zinc-900 overflow-hidden">
+                                  {group.books[0].coverUrl ? (
+                                      <img src={group.books[0].coverUrl} alt={group.name} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
+                                  ) : (
+                                      <div className="w-full h-full flex items-center justify-center text-zinc-600"><Layers size={32} /></div>
+                                  )}
+                                  <div className="absolute top-2 right-2">
+                                      <span className="px-1.5 py-0.5 bg-black/70 text-white text-[10px] md:text-xs font-bold rounded shadow-lg backdrop-blur-sm flex items-center gap-1">
+                                          <Layers size={10} className="md:w-3 md:h-3" /> {group.books.length}
+                                      </span>
+                                  </div>
+                                  {group.progress > 0 && (
+                                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-zinc-800">
+                                      <div className="h-full bg-accent" style={{ width: `${group.progress}%` }}></div>
+                                  </div>
+                                  )}
+                              </div>
+                              <div className="p-2 md:p-4">
+                                  <h3 className={`font-semibold truncate text-xs md:text-sm ${isDark ? 'text-zinc-100' : 'text-zinc-800'}`} title={group.name}>{group.name}</h3>
+                                  <span className="text-[10px] md:text-xs text-zinc-500">{group.finishedCount}/{group.books.length} {t(settings.language, 'volumesRead')}</span>
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+                  {ungroupedBooks.length > 0 && (
+                      <div>
+                          <h2 className="text-xs uppercase font-bold text-zinc-500 mb-3">{t(settings.language, 'noSeries')}</h2>
+                          <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-6">
+                              {ungroupedBooks.map(renderGridItem)}
+                          </div>
+                      </div>
+                  )}
+              </div>
+          )
       ) : (
           <div className="flex flex-col gap-3">
               {books.map(book => (
@@ -679,9 +1405,9 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                               {book.progress !== undefined && (
                                   <div className="flex items-center gap-2 w-24 md:w-32">
                                       <div className="h-1.5 flex-1 bg-zinc-700 rounded-full overflow-hidden">
-                                          <div className="h-full bg-accent" style={{ width: `${(book.progress / 100) * 100}%` }}></div>
+                                          <div className="h-full bg-accent" style={{ width: `${getBookProgressPercent(book)}%` }}></div>
                                       </div>
-                                      <span className="text-[10px] text-zinc-400">{Math.round(book.progress || 0)}%</span>
+                                      <span className="text-[10px] text-zinc-400">{Math.round(getBookProgressPercent(book))}%</span>
                                   </div>
                               )}
                               <span className="text-[10px] text-zinc-500">{new Date(book.addedAt).toLocaleDateString()}</span>
@@ -691,14 +1417,14 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
                       <div className="flex items-center gap-2 md:gap-3 shrink-0">
                          {/* Badges - Adjusted for mobile list view */}
                          <div className="flex flex-col md:flex-row gap-1 items-end">
-                             {book.mokuroFile && <span className="px-1.5 py-0.5 bg-zinc-700 text-zinc-300 text-[10px] font-bold rounded flex items-center gap-1 whitespace-nowrap"><FileText size={10} /> OCR</span>}
-                             {book.translatedFile && <span className="px-1.5 py-0.5 bg-zinc-700 text-zinc-300 text-[10px] font-bold rounded flex items-center gap-1 whitespace-nowrap"><Globe size={10} /> TR</span>}
+                             {!!book.fileSizes?.mokuroFile && <span className="px-1.5 py-0.5 bg-zinc-700 text-zinc-300 text-[10px] font-bold rounded flex items-center gap-1 whitespace-nowrap"><FileText size={10} /> OCR</span>}
+                             {!!book.fileSizes?.translatedFile && <span className="px-1.5 py-0.5 bg-zinc-700 text-zinc-300 text-[10px] font-bold rounded flex items-center gap-1 whitespace-nowrap"><Globe size={10} /> TR</span>}
                          </div>
                          <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                             {/* ... actions ... */}
                             <label className="p-2 text-zinc-400 hover:text-green-500 hover:bg-white/5 rounded-full cursor-pointer transition-colors" onClick={(e) => e.stopPropagation()} title="Upload Translation">
                                 <Globe size={16} />
-                                <input type="file" accept=".zip,.cbz" className="hidden" onChange={(e) => handleTransUpload(e, book.id)} />
+                                <input type="file" accept={BOOK_FILE_ACCEPT} className="hidden" onChange={(e) => handleTransUpload(e, book.id)} />
                             </label>
                             <label className="p-2 text-zinc-400 hover:text-primary hover:bg-white/5 rounded-full cursor-pointer transition-colors" onClick={(e) => e.stopPropagation()} title="Attach Mokuro">
                                 <Upload size={16} />
@@ -726,6 +1452,7 @@ const Bookshelf: React.FC<BookshelfProps> = ({ onOpenBook, settings, setSettings
         showOcr={false} setShowOcr={() => {}}
         ankiSettings={ankiSettings} setAnkiSettings={setAnkiSettings}
         readerSettings={settings} setReaderSettings={setSettings}
+        onDataRestored={loadBooks}
       />
     </div>
   );
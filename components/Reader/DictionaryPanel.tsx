@@ -46,9 +46,20 @@ const DictionaryPanel: React.FC<Props> = ({
   // Web Tab Local State
   const [showWebCustomDef, setShowWebCustomDef] = useState(false); 
   
-  // Local state for source toggle
+  // Local state for source toggle, saved as the dictionary source setting (which a book can override)
   const [dictSource, setDictSource] = useState<'api' | 'local'>(settings.dictionarySource || 'api');
 
+  useEffect(() => {
+      setDictSource(settings.dictionarySource || 'api');
+  }, [settings.dictionarySource]);
+
+  const handleSourceChange = (source: 'api' | 'local') => {
+      setDictSource(source);
+      if (onUpdateSettings && source !== settings.dictionarySource) {
+          onUpdateSettings({ ...settings, dictionarySource: source });
+      }
+  };
+
   // Web search settings
   const [webMode, setWebMode] = useState<'iframe' | 'external'>(settings.webSearchMode || 'iframe');
   
@@ -668,8 +679,8 @@ const DictionaryPanel: React.FC<Props> = ({
                         </div>
                         
                         <div className="flex bg-black/5 dark:bg-white/5 rounded-lg p-0.5">
-                            <button onClick={() => setDictSource('api')} className={`px-2 py-1 text-[10px] rounded-md font-bold transition-all ${dictSource === 'api' ? 'bg-white shadow text-primary' : 'text-zinc-500'}`}>{t('sourceApi')}</button>
-                            <button onClick={() => setDictSource('local')} className={`px-2 py-1 text-[10px] rounded-md font-bold transition-all ${dictSource === 'local' ? 'bg-white shadow text-primary' : 'text-zinc-500'}`}>{t('sourceLocal')}</button>
+                            <button onClick={() => handleSourceChange('api')} className={`px-2 py-1 text-[10px] rounded-md font-bold transition-all ${dictSource === 'api' ? 'bg-white shadow text-primary' : 'text-zinc-500'}`}>{t('sourceApi')}</button>
+                            <button onClick={() => handleSourceChange('local')} className={`px-2 py-1 text-[10px] rounded-md font-bold transition-all ${dictSource === 'local' ? 'bg-white shadow text-primary' : 'text-zinc-500'}`}>{t('sourceLocal')}</button>
                         </div>
                     </div>
 
@@ -1,9 +1,9 @@
 
 
-import React, { useRef, useEffect, useState, memo, useCallback } from 'react';
+import React, { useRef, useEffect, useLayoutEffect, useState, useMemo, memo, useCallback } from 'react';
 import { MokuroBlock, MokuroPage, ReaderSettings, MokuroData } from '../../types';
-import JSZip from 'jszip';
-import { loadImage } from '../../services/parser';
+import { BookSource } from '../../services/parser';
+import { loadCachedImage, retainImage } from '../../services/imageCache';
 import { RefreshCw } from 'lucide-react';
 
 export interface PageContent {
@@ -21,12 +21,13 @@ interface ImageViewerProps {
   readingDirection: 'ltr' | 'rtl';
   settings: ReaderSettings;
   pages: PageContent[]; 
-  zip?: JSZip | null;
+  source?: BookSource | null;
   imageFiles?: string[];
-  translatedZip?: JSZip | null;
+  translatedSource?: BookSource | null;
   translatedImageFiles?: string[];
   pageOffset?: number;
   mokuroData?: MokuroData | null;
+  getOcrPage?: (index: number) => MokuroPage | null; // OCR for a page of the organized reading order
   currentPage?: number;
   onPageChange?: (page: number) => void;
   
@@ -34,8 +35,13 @@ interface ImageViewerProps {
   onCrop?: (dataUrl: string, box: { x: number, y: number, w: number, h: number }) => void;
   isMagnifying?: boolean;
   magnifierLevel?: number;
+  onTap?: (x: number, y: number) => boolean; // Tap position as fractions of the view; true when it was handled
+  onSwipe?: (direction: 'left' | 'right') => void; // Direction the finger moved
 }
 
+// Horizontal travel that turns a drag into a page swipe
+const SWIPE_DISTANCE = 60;
+
 const getLineSeparator = (lang: string | undefined) => {
     // CJK languages usually don't use spaces between lines/words in this context
     const cjk = ['zh', 'zh-Hant', 'ja', 'ko'];
@@ -266,79 +272,160 @@ const CropOverlay: React.FC<{
 };
 
 // --- Webtoon Mode Viewer ---
+
+// Pixels rendered above and below the viewport
+const WEBTOON_OVERSCAN = 1000;
+// Border between slices
+const WEBTOON_PAGE_GAP = 1;
+// Height / width used for slices that have not been loaded yet, until some have
+const DEFAULT_PAGE_RATIO = 1.5;
+
+// Index of the last page starting at or above y
+const pageAtOffset = (offsets: number[], y: number) => {
+    let lo = 0;
+    let hi = Math.max(0, offsets.length - 2);
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (offsets[mid] <= y) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+};
+
+/**
+ * Only pages within WEBTOON_OVERSCAN of the viewport are mounted, positioned from
+ * a prefix sum of page heights. Heights come from image dimensions once a page has
+ * loaded and from the average aspect ratio before that. The page at the top of the
+ * viewport is the anchor: progress is reported from it, and it is kept in place when
+ * heights above it change, so restoring a page lands exactly on its top edge.
+ */
 const WebtoonViewer: React.FC<ImageViewerProps & { containerRef: React.RefObject<HTMLDivElement | null> }> = ({ 
-    zip, imageFiles, onOcrClick, settings, mokuroData, showOcr, currentPage, onPageChange, containerRef
+    source, imageFiles, onOcrClick, settings, mokuroData, getOcrPage, showOcr, currentPage, onPageChange
 }) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const columnRef = useRef<HTMLDivElement>(null);
     const scrollRafId = useRef<number | null>(null);
-    const lastScrollTime = useRef(0);
-    const isScrollingProgrammatically = useRef(false);
+    // Natural image sizes by file name
+    const dims = useRef<Map<string, { w: number, h: number }>>(new Map());
+    const [layoutVersion, setLayoutVersion] = useState(0);
+    const [columnWidth, setColumnWidth] = useState(0);
+    const [range, setRange] = useState({ start: 0, end: -1 });
+    const anchor = useRef({ index: currentPage || 0, fraction: 0 });
+    const reportedPage = useRef<number | null>(null);
+    const files = imageFiles || [];
+    const count = files.length;
 
     useEffect(() => {
-        if (typeof currentPage === 'number' && containerRef.current && !isScrollingProgrammatically.current) {
-            const el = document.getElementById(`webtoon-page-${currentPage}`);
-            if (el) {
-                isScrollingProgrammatically.current = true;
-                el.scrollIntoView({ behavior: 'auto', block: 'start' });
-                setTimeout(() => { isScrollingProgrammatically.current = false; }, 500);
-            }
+        const el = columnRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(() => setColumnWidth(el.clientWidth));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    const offsets = useMemo(() => {
+        let ratioSum = 0;
+        dims.current.forEach(d => { ratioSum += d.h / d.w; });
+        const ratio = dims.current.size > 0 ? ratioSum / dims.current.size : DEFAULT_PAGE_RATIO;
+        const result = new Array<number>(count + 1);
+        result[0] = 0;
+        for (let i = 0; i < count; i++) {
+            const dim = dims.current.get(files[i]);
+            result[i + 1] = result[i] + Math.round(columnWidth * (dim ? dim.h / dim.w : ratio)) + WEBTOON_PAGE_GAP;
         }
-    }, [currentPage]);
+        return result;
+    }, [imageFiles, columnWidth, layoutVersion]);
+
+    const updateRange = useCallback(() => {
+        const el = scrollRef.current;
+        if (!el || count === 0) return;
+        const start = pageAtOffset(offsets, Math.max(0, el.scrollTop - WEBTOON_OVERSCAN));
+        const end = pageAtOffset(offsets, el.scrollTop + el.clientHeight + WEBTOON_OVERSCAN);
+        setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+    }, [offsets, count]);
+
+    // Puts the anchor page back at the top whenever page heights change
+    useLayoutEffect(() => {
+        const el = scrollRef.current;
+        if (!el || count === 0 || columnWidth === 0) return;
+        const index = Math.min(anchor.current.index, count - 1);
+        el.scrollTop = offsets[index] + anchor.current.fraction * (offsets[index + 1] - offsets[index]);
+        updateRange();
+    }, [offsets]);
+
+    // Jumps from outside (slider, bookmarks, restoring progress) move the anchor
+    useEffect(() => {
+        if (typeof currentPage !== 'number' || currentPage === reportedPage.current) return;
+        reportedPage.current = currentPage;
+        anchor.current = { index: currentPage, fraction: 0 };
+        const el = scrollRef.current;
+        if (el && count > 0) {
+            el.scrollTop = offsets[Math.min(currentPage, count - 1)];
+            updateRange();
+        }
+    }, [currentPage, count]);
 
     useEffect(() => {
+        const el = scrollRef.current;
+        if (!el) return;
         const handleScroll = () => {
-            if (isScrollingProgrammatically.current) return;
-            if (Date.now() - lastScrollTime.current < 100) return;
-            lastScrollTime.current = Date.now();
+            if (count === 0) return;
+            const index = pageAtOffset(offsets, el.scrollTop);
+            const height = offsets[index + 1] - offsets[index];
+            anchor.current = { index, fraction: height > 0 ? (el.scrollTop - offsets[index]) / height : 0 };
 
             if (scrollRafId.current) cancelAnimationFrame(scrollRafId.current);
             scrollRafId.current = requestAnimationFrame(() => {
-                if (!onPageChange || !imageFiles || !containerRef.current) return;
-                
-                const containerRect = containerRef.current.getBoundingClientRect();
-                const centerY = containerRect.top + containerRect.height / 2;
-                
-                const pages = containerRef.current.querySelectorAll('[id^="webtoon-page-"]');
-                let bestIdx = -1;
-                let minDist = Infinity;
-
-                for (let i = 0; i < pages.length; i++) {
-                    const page = pages[i];
-                    const rect = page.getBoundingClientRect();
-                    if (rect.bottom < containerRect.top - 500) continue; 
-                    if (rect.top > containerRect.bottom + 500) break; 
-
-                    const pageCenterY = rect.top + rect.height / 2;
-                    const dist = Math.abs(pageCenterY - centerY);
-                    if (dist < minDist) {
-                        minDist = dist;
-                        bestIdx = parseInt(page.id.replace('webtoon-page-', ''));
-                    }
-                }
-                if (bestIdx !== -1) {
-                    onPageChange(bestIdx);
+                updateRange();
+                // The last slices can never reach the top edge, count them as read at the bottom
+                const atEnd = el.scrollTop + el.clientHeight >= el.scrollHeight - 1;
+                const page = atEnd ? count - 1 : anchor.current.index;
+                if (onPageChange && page !== reportedPage.current) {
+                    reportedPage.current = page;
+                    onPageChange(page);
                 }
             });
         };
-        const container = containerRef.current;
-        container?.addEventListener('scroll', handleScroll);
+        el.addEventListener('scroll', handleScroll, { passive: true });
         return () => {
-            container?.removeEventListener('scroll', handleScroll);
-            if(scrollRafId.current) cancelAnimationFrame(scrollRafId.current);
+            el.removeEventListener('scroll', handleScroll);
+            if (scrollRafId.current) cancelAnimationFrame(scrollRafId.current);
         };
-    }, [onPageChange, imageFiles]);
+    }, [offsets, count, onPageChange, updateRange]);
+
+    const handleMeasure = useCallback((filename: string, w: number, h: number) => {
+        const known = dims.current.get(filename);
+        if (!w || !h || (known && known.w === w && known.h === h)) return;
+        dims.current.set(filename, { w, h });
+        setLayoutVersion(v => v + 1);
+    }, []);
+
+    const visible: number[] = [];
+    for (let i = range.start; i <= Math.min(range.end, count - 1); i++) visible.push(i);
 
     return (
-        <div className="w-full h-full overflow-y-auto scroll-smooth overscroll-none">
-            <div className={`max-w-3xl mx-auto flex flex-col items-center min-h-full pb-32 ${settings.theme === 'light' ? 'bg-zinc-200' : 'bg-black'}`}>
-                {imageFiles?.map((filename, index) => {
-                     const pageOcr = mokuroData?.pages.find(p => p.img_path.includes(filename)) || mokuroData?.pages[index];
+        <div ref={scrollRef} className="w-full h-full overflow-y-auto overscroll-none" style={{ overflowAnchor: 'none' }}>
+            <div 
+                ref={columnRef}
+                className={`relative w-full max-w-3xl mx-auto min-h-full ${settings.theme === 'light' ? 'bg-zinc-200' : 'bg-black'}`}
+                style={{ height: offsets[count] }}
+            >
+                {visible.map(index => {
+                    const filename = files[index];
+                    const pageOcr = getOcrPage
+                        ? getOcrPage(index)
+                        : mokuroData?.pages.find(p => p.img_path.includes(filename)) || mokuroData?.pages[index];
                     return (
                         <LazyWebtoonImage 
                             key={`${filename}-${index}`}
                             id={`webtoon-page-${index}`} 
                             index={index}
-                            zip={zip}
+                            source={source}
                             filename={filename}
+                            top={offsets[index]}
+                            height={offsets[index + 1] - offsets[index] - WEBTOON_PAGE_GAP}
+                            knownDim={dims.current.get(filename) || null}
+                            onMeasure={handleMeasure}
                             ocr={pageOcr || null}
                             showOcr={showOcr}
                             onOcrClick={onOcrClick}
@@ -348,6 +435,7 @@ const WebtoonViewer: React.FC<ImageViewerProps & { containerRef: React.RefObject
                     )
                 })}
             </div>
+            <div className="h-32" />
         </div>
     );
 };
@@ -355,32 +443,36 @@ const WebtoonViewer: React.FC<ImageViewerProps & { containerRef: React.RefObject
 const LazyWebtoonImage: React.FC<{ 
     id: string,
     index: number, 
-    zip?: JSZip | null, 
+    source?: BookSource | null, 
     filename: string,
     ocr: MokuroPage | null,
     showOcr: boolean,
     onOcrClick: (text: string, box: MokuroBlock) => void,
     settings: ReaderSettings,
     theme: 'light' | 'dark',
-}> = ({ id, index, zip, filename, ocr, showOcr, onOcrClick, settings, theme }) => {
+    top: number,
+    height: number,
+    knownDim: {w: number, h: number} | null,
+    onMeasure: (filename: string, w: number, h: number) => void,
+}> = ({ id, index, source, filename, ocr, showOcr, onOcrClick, settings, theme, top, height, knownDim, onMeasure }) => {
     const [url, setUrl] = useState<string>('');
     const imgRef = useRef<HTMLDivElement>(null);
-    const [isVisible, setIsVisible] = useState(false);
-    const [imgDim, setImgDim] = useState<{w: number, h: number} | null>(null);
-
-    useEffect(() => {
-        const observer = new IntersectionObserver(([entry]) => {
-            if (entry.isIntersecting) { setIsVisible(true); observer.disconnect(); }
-        }, { rootMargin: '1000px' }); 
-        if (imgRef.current) observer.observe(imgRef.current);
-        return () => observer.disconnect();
-    }, []);
+    const [imgDim, setImgDim] = useState<{w: number, h: number} | null>(knownDim);
 
+    // Mounted only near the viewport; unmounting gives the image back to the cache
+    // and drops a decode that has not started yet from the worker queue
     useEffect(() => {
-        if (isVisible && !url && zip) {
-            loadImage(zip, filename).then(setUrl);
-        }
-    }, [isVisible, zip, filename, url]);
+        if (!source) return;
+        const release = retainImage(source, filename);
+        const controller = new AbortController();
+        loadCachedImage(source, filename, controller.signal).then(loaded => {
+            if (!controller.signal.aborted) setUrl(loaded);
+        });
+        return () => {
+            controller.abort();
+            release();
+        };
+    }, [source, filename]);
 
     // Handle Panel Click Mode Logic
     const handlePanelClick = (e: React.PointerEvent) => {
@@ -417,7 +509,8 @@ const LazyWebtoonImage: React.FC<{
     return (
         <div 
             id={id} ref={imgRef} 
-            className={`w-full relative min-h-[100px] flex items-center justify-center border-b ${theme === 'light' ? 'bg-zinc-100 border-zinc-200' : 'bg-zinc-950 border-zinc-900'}`}
+            className={`absolute left-0 w-full box-content overflow-hidden flex items-start justify-center border-b ${theme === 'light' ? 'bg-zinc-100 border-zinc-200' : 'bg-zinc-950 border-zinc-900'}`}
+            style={{ top, height }}
             onPointerUp={handlePanelClick}
         >
             {url ? (
@@ -426,7 +519,11 @@ const LazyWebtoonImage: React.FC<{
                         src={url} 
                         alt={`Page ${index}`} 
                         className="w-full h-auto block select-none pointer-events-none" 
-                        onLoad={(e) => setImgDim({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+                        onLoad={(e) => {
+                            const { naturalWidth: w, naturalHeight: h } = e.currentTarget;
+                            setImgDim({ w, h });
+                            onMeasure(filename, w, h);
+                        }}
                     />
                     
                     {/* Render HTML Overlay for Popup Mode */}
@@ -455,14 +552,14 @@ const LazyWebtoonImage: React.FC<{
                         </div>
                     )}
                 </div>
-            ) : <div className={`w-full h-[500px] animate-pulse ${theme === 'light' ? 'bg-zinc-200' : 'bg-zinc-800'}`} />}
+            ) : <div className={`w-full h-full animate-pulse ${theme === 'light' ? 'bg-zinc-200' : 'bg-zinc-800'}`} />}
         </div>
     );
 };
 
 // --- Pagination Mode Viewer with Drag/Zoom ---
 const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObject<HTMLDivElement | null> }> = ({ 
-  pages, showOcr, onOcrClick, scale, setScale, readingDirection, settings, containerRef
+  pages, showOcr, onOcrClick, scale, setScale, readingDirection, settings, containerRef, onTap, onSwipe
 }) => {
   const contentRef = useRef<HTMLDivElement>(null);
   
@@ -475,30 +572,68 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
   const lastPos = useRef({ x: 0, y: 0 }); 
   const initialDist = useRef<number | null>(null); // for pinch zoom
   const initialScale = useRef(1);
+  // A drag can only be a swipe while the page has nothing to pan sideways and no pinch happened
+  const canSwipe = useRef(false);
 
   // Transition state to toggle classes
   const [isTransitioning, setIsTransitioning] = useState(true);
 
-  // Sync prop scale change (e.g. from reset)
-  useEffect(() => {
-      // If props scale implies reset, update ref
-      if (Math.abs(scale - transform.current.scale) > 0.01 && scale === 1) {
-          transform.current.scale = 1;
-          transform.current.x = 0;
-          transform.current.y = 0;
-          setIsTransitioning(true);
-          updateDOM();
+  // Zoom set by hand with pinch or ctrl+wheel, kept across pages when keepZoom is on
+  const manualScale = useRef<number | null>(null);
+  // Set once the user moves the current page, so late image loads do not reposition it
+  const interacted = useRef(false);
+
+  // Images are laid out to fit the page at scale 1; other fit modes scale that layout
+  const getFitScale = (): number => {
+      const container = containerRef.current;
+      const content = contentRef.current;
+      if (!container || !content || !content.offsetWidth || !content.offsetHeight) return 1;
+      switch (settings.fitMode) {
+          case 'width': return container.clientWidth / content.offsetWidth;
+          case 'height': return container.clientHeight / content.offsetHeight;
+          case 'original': {
+              const img = content.querySelector('img');
+              return img && img.offsetWidth ? img.naturalWidth / img.offsetWidth : 1;
+          }
+          case 'custom': return (settings.customZoom || 100) / 100;
+          default: return 1;
       }
-  }, [scale]);
+  };
+
+  // A page larger than the screen opens at its top corner on the side reading starts from
+  const showPageStart = (newScale: number) => {
+      const container = containerRef.current;
+      const content = contentRef.current;
+      const overflowX = container && content ? Math.max(0, content.offsetWidth * newScale - container.clientWidth) / 2 : 0;
+      const overflowY = container && content ? Math.max(0, content.offsetHeight * newScale - container.clientHeight) / 2 : 0;
+      transform.current = { x: readingDirection === 'rtl' ? -overflowX : overflowX, y: overflowY, scale: newScale };
+      updateDOM();
+      if (scale !== newScale) setScale(newScale);
+  };
 
-  // Reset on page change
+  const resetZoom = () => {
+      manualScale.current = null;
+      setIsTransitioning(true);
+      showPageStart(getFitScale());
+  };
+
+  // Page change: back to the fit mode, or the hand-set zoom when it is kept
   useEffect(() => {
-      transform.current = { x: 0, y: 0, scale: 1 };
+      interacted.current = false;
+      if (!settings.keepZoom) manualScale.current = null;
       setIsTransitioning(true);
-      updateDOM();
-      if (scale !== 1) setScale(1);
+      showPageStart(manualScale.current ?? getFitScale());
   }, [pages]);
 
+  useEffect(() => {
+      resetZoom();
+  }, [settings.fitMode, settings.customZoom]);
+
+  // The layout is only known once the images have loaded
+  const handleImageLoad = () => {
+      if (!interacted.current) showPageStart(manualScale.current ?? getFitScale());
+  };
+
   const updateDOM = () => {
       if (contentRef.current) {
           contentRef.current.style.transform = `translate3d(${transform.current.x}px, ${transform.current.y}px, 0) scale(${transform.current.scale})`;
@@ -530,14 +665,19 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
       
       pointers.current.set(e.pointerId, e);
       setIsTransitioning(false);
+      interacted.current = true;
 
       if (pointers.current.size === 1) {
           isDragging.current = true;
           startPos.current = { x: e.clientX, y: e.clientY }; 
           // Store current transform as start point for relative drag
           lastPos.current = { x: transform.current.x, y: transform.current.y };
+          const container = containerRef.current;
+          const content = contentRef.current;
+          canSwipe.current = !!container && !!content && content.offsetWidth * transform.current.scale <= container.clientWidth + 1;
       } else if (pointers.current.size === 2) {
           isDragging.current = false; // Pinch overrides drag
+          canSwipe.current = false;
           const p = Array.from(pointers.current.values());
           initialDist.current = getDistance(p[0], p[1]);
           initialScale.current = transform.current.scale;
@@ -556,6 +696,7 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
           const newScale = Math.min(Math.max(0.5, initialScale.current * (dist / initialDist.current)), 5);
           
           transform.current.scale = newScale;
+          manualScale.current = newScale;
           // If zooming out to < 1, reset center roughly? No, let user free zoom.
           updateDOM();
       } else if (isDragging.current && pointers.current.size === 1) {
@@ -580,22 +721,25 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
           if (isDragging.current) {
               isDragging.current = false;
               // Click check
-              const dist = Math.sqrt(Math.pow(e.clientX - startPos.current.x, 2) + Math.pow(e.clientY - startPos.current.y, 2));
+              const dx = e.clientX - startPos.current.x;
+              const dy = e.clientY - startPos.current.y;
+              const dist = Math.sqrt(dx * dx + dy * dy);
               if (dist < 10) { 
-                  // Handle click for Panel mode only (Popup handled by text-box events or ignored)
-                  if (settings.dictionaryMode === 'panel') {
-                      handleOCRClickLogic(e);
-                  } else {
-                      // Only snap back if effectively a click and zoom is negligible
-                       if (Math.abs(transform.current.scale - 1) < 0.1) {
-                           setIsTransitioning(true);
-                           transform.current.x = 0;
-                           transform.current.y = 0;
-                           transform.current.scale = 1;
-                           updateDOM();
-                           setScale(1);
-                       }
+                  // OCR boxes take clicks in Panel mode (Popup handled by text-box events), the tap zones get the rest
+                  if (settings.dictionaryMode === 'panel' && handleOCRClickLogic(e)) return;
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  if (onTap && onTap((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height)) return;
+                  // Only snap back if effectively a click and the zoom is still the fitted one
+                  if (settings.dictionaryMode !== 'panel' && Math.abs(transform.current.scale - getFitScale()) < 0.1) {
+                      resetZoom();
                   }
+              } else if (settings.swipeToTurn !== false && onSwipe && canSwipe.current && Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * 2) {
+                  // Put the page back where the drag started; a page turn replaces it anyway
+                  setIsTransitioning(true);
+                  transform.current.x = lastPos.current.x;
+                  transform.current.y = lastPos.current.y;
+                  updateDOM();
+                  onSwipe(dx < 0 ? 'left' : 'right');
               } else {
                   // After drag ends, check bounds or snap back if desired? 
                   // User requested "Smooth restore effect" on page turn/double click, not necessarily bounce back.
@@ -610,9 +754,10 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
       }
   };
 
-  const handleOCRClickLogic = (e: React.PointerEvent) => {
-       if (!showOcr) return; 
-       if (!contentRef.current) return;
+  // True when the click landed on an OCR block
+  const handleOCRClickLogic = (e: React.PointerEvent): boolean => {
+       if (!showOcr) return false; 
+       if (!contentRef.current) return false;
        // Find which page image was clicked
        const wrappers = Array.from(contentRef.current.children) as HTMLElement[];
        const clickedWrapperIndex = wrappers.findIndex(w => {
@@ -641,12 +786,13 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
                        const [bx1, by1, bx2, by2] = block.box;
                        if (svgX >= bx1 && svgX <= bx2 && svgY >= by1 && svgY <= by2) {
                            onOcrClick(block.lines.join(sep), block);
-                           return; 
+                           return true; 
                        }
                    }
                }
            }
        }
+       return false;
   };
 
   const [showTranslated, setShowTranslated] = useState(false);
@@ -675,17 +821,14 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
           if (e.ctrlKey) {
              e.preventDefault();
              setIsTransitioning(false);
+             interacted.current = true;
              const newScale = Math.min(Math.max(0.5, transform.current.scale - e.deltaY * 0.01), 5);
              transform.current.scale = newScale;
+             manualScale.current = newScale;
              updateDOM();
           }
       }}
-      onDoubleClick={() => {
-          setIsTransitioning(true);
-          transform.current = { x: 0, y: 0, scale: 1 };
-          updateDOM();
-          setScale(1);
-      }}
+      onDoubleClick={resetZoom}
     >
       <div 
         ref={contentRef}
@@ -699,6 +842,7 @@ const PaginationViewer: React.FC<ImageViewerProps & { containerRef: React.RefObj
                 showOcr={showOcr}
                 onOcrClick={onOcrClick}
                 settings={settings}
+                onLoad={handleImageLoad}
             />
         ))}
       </div>
@@ -710,8 +854,9 @@ const PageWrapper: React.FC<{
     page: PageContent,
     showOcr: boolean,
     onOcrClick: (text: string, box: MokuroBlock) => void,
-    settings: ReaderSettings
-}> = ({ page, showOcr, onOcrClick, settings }) => {
+    settings: ReaderSettings,
+    onLoad?: () => void
+}> = ({ page, showOcr, onOcrClick, settings, onLoad }) => {
     const [imgDim, setImgDim] = useState<{w: number, h: number} | null>(null);
 
     return (
@@ -721,7 +866,7 @@ const PageWrapper: React.FC<{
                 alt={`Page`} 
                 className="max-h-screen object-contain pointer-events-none select-none block shadow-2xl"
                 style={{ maxWidth: settings.pageViewMode === 'double' ? '50vw' : '100vw' }}
-                onLoad={(e) => setImgDim({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+                onLoad={(e) => { setImgDim({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight }); onLoad?.(); }}
             />
             
             {/* HTML Overlay for Popup Mode */}
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { PageManifestEntry, PageRotation, ThemeMode, ReadingDirection } from '../../types';
+import { BookSource, isAbortError } from '../../services/parser';
+import { getManifestEntries, isDefaultManifest } from '../../services/pageManifest';
+import { t, Language } from '../../services/i18n';
+import { X, Save, Eye, EyeOff, RotateCw, Scissors, ChevronLeft, ChevronRight, RotateCcw, Loader2 } from 'lucide-react';
+
+interface PageOrganizerProps {
+  source: BookSource;
+  imageFiles: string[]; // Archive order
+  manifest?: PageManifestEntry[];
+  readingDirection: ReadingDirection;
+  language: Language;
+  theme: ThemeMode;
+  onSave: (manifest: PageManifestEntry[] | undefined) => void;
+  onClose: () => void;
+}
+
+const THUMB_WIDTH = 160;
+
+// Small JPEG of a page, so a whole book of thumbnails stays cheap
+const createThumbnail = async (blob: Blob): Promise<Blob | null> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMB_WIDTH;
+    canvas.height = Math.round(bitmap.height * (THUMB_WIDTH / bitmap.width));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+};
+
+const PageOrganizer: React.FC<PageOrganizerProps> = ({ source, imageFiles, manifest, readingDirection, language, theme, onSave, onClose }) => {
+  const [entries, setEntries] = useState<PageManifestEntry[]>(() => getManifestEntries(imageFiles, manifest));
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Thumbnails are decoded one by one from the original images; rotation and split are applied with CSS
+  useEffect(() => {
+      const controller = new AbortController();
+      const urls: string[] = [];
+      const loadAll = async () => {
+          for (const file of imageFiles) {
+              try {
+                  const blob = await source.getImage(file, controller.signal);
+                  const thumb = blob && await createThumbnail(blob);
+                  if (controller.signal.aborted) return;
+                  if (!thumb) continue;
+                  const url = URL.createObjectURL(thumb);
+                  urls.push(url);
+                  setThumbs(prev => ({ ...prev, [file]: url }));
+              } catch (e) {
+                  if (isAbortError(e)) return;
+                  console.error("Failed to load thumbnail", file, e);
+              }
+          }
+      };
+      loadAll();
+      return () => {
+          controller.abort();
+          urls.forEach(url => URL.revokeObjectURL(url));
+      };
+  }, [source, imageFiles]);
+
+  const updateEntry = (index: number, patch: Partial<PageManifestEntry>) => {
+      setEntries(prev => prev.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+  };
+
+  const moveEntry = (from: number, to: number) => {
+      if (to < 0 || to >= entries.length || from === to) return;
+      setEntries(prev => {
+          const next = [...prev];
+          const [moved] = next.splice(from, 1);
+          next.splice(to, 0, moved);
+          return next;
+      });
+  };
+
+  const rotateEntry = (index: number) => {
+      updateEntry(index, { rotation: (((entries[index].rotation || 0) + 90) % 360) as PageRotation });
+  };
+
+  // Splitting adds the second half right after the first; the half read first depends on the direction
+  const toggleSplit = (index: number) => {
+      const entry = entries[index];
+      setEntries(prev => {
+          if (entry.split) {
+              return prev
+                  .filter((other, i) => i === index || other.file !== entry.file || !other.split)
+                  .map(other => other === entry ? { ...entry, split: undefined } : other);
+          }
+          const [first, second]: ('left' | 'right')[] = readingDirection === 'rtl' ? ['right', 'left'] : ['left', 'right'];
+          const next = [...prev];
+          next.splice(index, 1, { ...entry, split: first }, { ...entry, split: second });
+          return next;
+      });
+  };
+
+  const handleSave = () => {
+      onSave(isDefaultManifest(imageFiles, entries) ? undefined : entries);
+  };
+
+  const shownCount = entries.filter(entry => !entry.hidden).length;
+
+  // Theme styles
+  const isLight = theme === 'light';
+  const bgMain = isLight ? 'bg-white' : 'bg-surface';
+  const bgSub = isLight ? 'bg-zinc-50' : 'bg-zinc-900/50';
+  const border = isLight ? 'border-zinc-200' : 'border-white/10';
+  const textMain = isLight ? 'text-zinc-900' : 'text-zinc-100';
+  const textSub = isLight ? 'text-zinc-500' : 'text-zinc-400';
+  const hoverBtn = isLight ? 'hover:bg-zinc-200' : 'hover:bg-white/10';
+  const toolBtn = 'p-1 bg-black/70 text-white rounded disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className={`${bgMain} border ${border} rounded-2xl w-full max-w-4xl overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]`}>
+        <div className={`p-4 border-b ${border} flex justify-between items-center ${bgSub} shrink-0`}>
+            <h2 className={`font-bold ${textMain}`}>{t(language, 'pageOrganizer')} <span className={`text-xs font-normal ${textSub}`}>({shownCount}/{entries.length})</span></h2>
+            <button onClick={onClose} className={`p-1 rounded-full transition-colors ${textSub} ${hoverBtn}`}><X size={20}/></button>
+        </div>
+        <p className={`px-4 pt-3 text-[10px] ${textSub}`}>{t(language, 'pageOrganizerHint')}</p>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar grid grid-cols-3 sm:grid-cols-5 md:grid-cols-6 gap-3">
+            {entries.map((entry, index) => {
+                const thumb = thumbs[entry.file];
+                const position = entries.slice(0, index + 1).filter(e => !e.hidden).length;
+                return (
+                    <div
+                        key={`${entry.file}#${entry.split || ''}`}
+                        draggable
+                        onDragStart={(e) => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => { e.preventDefault(); if (dragIndex !== null) moveEntry(dragIndex, index); setDragIndex(null); }}
+                        onDragEnd={() => setDragIndex(null)}
+                        className={`group relative aspect-[2/3] rounded-lg overflow-hidden border cursor-move ${border} ${isLight ? 'bg-zinc-100' : 'bg-black/40'} ${dragIndex === index ? 'opacity-40' : ''}`}
+                        title={entry.file}
+                    >
+                        {thumb ? (
+                            <img
+                                src={thumb}
+                                alt={entry.file}
+                                className={`w-full h-full object-cover pointer-events-none transition-transform ${entry.split === 'left' ? 'object-left' : entry.split === 'right' ? 'object-right' : 'object-center'} ${entry.hidden ? 'opacity-30 grayscale' : ''}`}
+                                style={{ transform: entry.rotation ? `rotate(${entry.rotation}deg)` : undefined }}
+                            />
+                        ) : (
+                            <div className="w-full h-full flex items-center justify-center"><Loader2 size={16} className={`animate-spin ${textSub}`}/></div>
+                        )}
+                        <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/70 text-white text-[10px] font-bold rounded">
+                            {entry.hidden ? '—' : position}{entry.split ? ` ${entry.split === 'left' ? 'L' : 'R'}` : ''}
+                        </span>
+                        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => updateEntry(index, { hidden: !entry.hidden })} className={`${toolBtn} hover:bg-primary`} title={t(language, entry.hidden ? 'showPage' : 'hidePage')}>{entry.hidden ? <Eye size={12}/> : <EyeOff size={12}/>}</button>
+                            <button onClick={() => rotateEntry(index)} className={`${toolBtn} hover:bg-primary`} title={t(language, 'rotatePage')}><RotateCw size={12}/></button>
+                            <button onClick={() => toggleSplit(index)} className={`${toolBtn} ${entry.split ? 'bg-primary' : 'hover:bg-primary'}`} title={t(language, entry.split ? 'mergePage' : 'splitPage')}><Scissors size={12}/></button>
+                        </div>
+                        <div className="absolute bottom-1 inset-x-1 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => moveEntry(index, index - 1)} disabled={index === 0} className={`${toolBtn} hover:bg-primary`}><ChevronLeft size={12}/></button>
+                            <button onClick={() => moveEntry(index, index + 1)} disabled={index === entries.length - 1} className={`${toolBtn} hover:bg-primary`}><ChevronRight size={12}/></button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className={`p-4 border-t ${border} flex gap-3 ${bgSub} shrink-0`}>
+            <button onClick={() => setEntries(getManifestEntries(imageFiles))} className={`px-4 py-2.5 rounded-xl text-sm font-medium flex items-center gap-2 transition-colors ${textSub} ${hoverBtn}`}>
+                <RotateCcw size={16}/> {t(language, 'resetPageOrder')}
+            </button>
+            <div className="flex-1"></div>
+            <button onClick={onClose} className={`px-4 py-2.5 rounded-xl text-sm font-medium transition-colors ${textSub} ${hoverBtn}`}>{t(language, 'cancel')}</button>
+            <button onClick={handleSave} disabled={shownCount === 0} className="px-6 py-2.5 bg-primary hover:bg-blue-600 disabled:opacity-50 text-white rounded-xl text-sm font-bold flex items-center gap-2 transition-colors">
+                <Save size={16}/> {t(language, 'save')}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageOrganizer;
@@ -1,17 +1,28 @@
 
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Book, MokuroData, AnkiSettingsType, ReaderSettings, MokuroPage, Bookmark } from '../../types';
-import { initZip, loadImage, parseMokuro } from '../../services/parser';
-import { updateBookProgress, updateBookBookmarks, updateBookStats, openDB } from '../../services/db'; 
+import { Book, MokuroData, AnkiSettingsType, ReaderSettings, MokuroPage, Bookmark, PageManifestEntry, BookSettings, KeyAction } from '../../types';
+import { initBookSource, closeBookSource, parseMokuro } from '../../services/parser';
+import { loadCachedImage, retainImage, releaseSourceImages, setImageCacheBudget, getPreloadIndices, DEFAULT_IMAGE_CACHE_MB, DEFAULT_PRELOAD_PAGES } from '../../services/imageCache';
+import { updateBookProgress, updateBookBookmarks, updateBookStats, updateBookPageCount, updateBookPageManifest, updateBookSettings, getAllBooks, getBook, getBookFiles } from '../../services/db'; 
+import { findNextVolume } from '../../services/series';
+import { isSoloPage } from '../../services/comicinfo';
+import { buildSpreadStarts, getSpreadPages } from '../../services/spreads';
+import { getBookSettings, applyBookSettings, splitSettingsChange } from '../../services/bookSettings';
+import { openStoredPages } from '../../services/pageStore';
+import { getBookArchive, requestHandlePermission } from '../../services/fileAccess';
+import { withPageTransforms, resolvePages, remapPageIndex, getTransformedName, transformOcrPage, TransformedSource } from '../../services/pageManifest';
+import { withImageAdjustments, cropOcrPage } from '../../services/imageAdjust';
+import { getTapAction } from '../../services/tapZones';
+import { DEFAULT_GAMEPAD_BINDINGS, findBindingAction, getKeyChord } from '../../services/keybindings';
 import { runTesseract } from '../../services/ocr';
 import ImageViewer, { PageContent } from './ImageViewer';
 import DictionaryPanel from './DictionaryPanel';
 import Sidebar from './Sidebar';
 import BookmarksSidebar from './BookmarksSidebar';
 import BookmarkModal from './BookmarkModal';
-import { ChevronLeft, ChevronRight, Settings, ArrowLeft, Maximize2, Minimize2, Search, Loader2, Crop, Bookmark as BookmarkIcon, ZoomIn, X, Minus, Plus } from 'lucide-react';
-import JSZip from 'jszip';
+import PageOrganizer from './PageOrganizer';
+import { Settings, ArrowLeft, Maximize2, Minimize2, Search, Loader2, Crop, Bookmark as BookmarkIcon, ZoomIn, X, Minus, Plus, SkipForward, FolderLock, LayoutGrid } from 'lucide-react';
 import { t } from '../../services/i18n';
 
 // UUID Polyfill for iOS/Insecure Contexts
@@ -26,22 +37,35 @@ const generateUUID = () => {
     });
 };
 
+// Natural size of a decoded page, used to show landscape spreads alone in double mode
+const getImageSize = async (url: string): Promise<{ width: number; height: number } | null> => {
+    const img = new Image();
+    img.src = url;
+    try {
+        await img.decode();
+        return { width: img.naturalWidth, height: img.naturalHeight };
+    } catch (e) {
+        return null;
+    }
+};
+
 interface ReaderProps {
   book: Book;
   onExit: () => void;
+  onOpenBook?: (book: Book) => void;
   settings: ReaderSettings;
-  setSettings: (s: ReaderSettings) => void;
+  setSettings: React.Dispatch<React.SetStateAction<ReaderSettings>>;
   ankiSettings: AnkiSettingsType;
   setAnkiSettings: (s: AnkiSettingsType) => void;
 }
 
-const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, ankiSettings, setAnkiSettings }) => {
-  const [zip, setZip] = useState<JSZip | null>(null);
-  const [imageFiles, setImageFiles] = useState<string[]>([]);
-  const [translatedZip, setTranslatedZip] = useState<JSZip | null>(null);
+const Reader: React.FC<ReaderProps> = ({ book, onExit, onOpenBook, settings, setSettings, ankiSettings, setAnkiSettings }) => {
+  const [source, setSource] = useState<TransformedSource | null>(null);
+  const [archiveFiles, setArchiveFiles] = useState<string[]>([]);
+  const [pageManifest, setPageManifest] = useState<PageManifestEntry[] | undefined>(book.pageManifest);
+  const [translatedSource, setTranslatedSource] = useState<TransformedSource | null>(null);
   const [translatedImageFiles, setTranslatedImageFiles] = useState<string[]>([]);
   const [currentPagesData, setCurrentPagesData] = useState<PageContent[]>([]);
-  const imageCache = useRef<Map<string, string>>(new Map());
   const [mokuroData, setMokuroData] = useState<MokuroData | null>(null);
   const [currentPage, setCurrentPage] = useState(book.progress || 0);
   const [scale, setScale] = useState(1);
@@ -51,8 +75,6 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
   const [activeSidebar, setActiveSidebar] = useState<'none' | 'settings' | 'bookmarks'>('none');
 
   const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
-  const [isLeftActive, setIsLeftActive] = useState(false);
-  const [isRightActive, setIsRightActive] = useState(false);
   
   const [dictQuery, setDictQuery] = useState<{
       text: string, 
@@ -63,6 +85,7 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
 
   const [isOcrSelecting, setIsOcrSelecting] = useState(false);
   const [isOcrLoading, setIsOcrLoading] = useState(false);
+  const [needsFileAccess, setNeedsFileAccess] = useState(false);
   const ocrCancelledRef = useRef(false);
   
   const [isMagnifying, setIsMagnifying] = useState(false);
@@ -72,9 +95,19 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
   const [editingBookmark, setEditingBookmark] = useState<Bookmark | null>(null);
   const [isCroppingForBookmark, setIsCroppingForBookmark] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [showPageOrganizer, setShowPageOrganizer] = useState(false);
+  const [spreadOffset, setSpreadOffset] = useState(!!book.spreadOffset);
+  const [bookSettings, setBookSettings] = useState<BookSettings>(() => getBookSettings(book));
+
+  // Next volume of the same series, offered on the last page
+  const [nextVolume, setNextVolume] = useState<Book | null>(null);
 
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Reading order after the page organizer; every page index in the reader refers to this list
+  const pages = React.useMemo(() => resolvePages(archiveFiles, pageManifest), [archiveFiles, pageManifest]);
+  const imageFiles = React.useMemo(() => pages.map(page => page.name), [pages]);
+
   // Time Tracking
   const readingStartTime = useRef(Date.now());
   const lastTimeUpdate = useRef(Date.now());
@@ -114,72 +147,186 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
   }, []);
 
   // Compute effective settings (with Book-specific overrides)
-  const effectiveSettings = React.useMemo(() => {
-      if (book.language) {
-          return { ...settings, learningLanguage: book.language as any };
-      }
-      return settings;
-  }, [settings, book.language]);
+  const effectiveSettings = React.useMemo(
+      () => applyBookSettings(settings, book, bookSettings),
+      [settings, book.language, book.type, bookSettings]
+  );
 
-  useEffect(() => {
-      if (book.type === 'webtoon' && settings.pageViewMode !== 'webtoon') {
-          setSettings({ ...settings, pageViewMode: 'webtoon' });
-      } else if (book.type === 'manga' && settings.pageViewMode === 'webtoon') {
-          setSettings({ ...settings, pageViewMode: 'single' });
+  const handleUpdateBookSettings = async (next: BookSettings | undefined) => {
+      setBookSettings(next || {});
+      book.readingDirection = next?.readingDirection;
+      try {
+          await updateBookSettings(book.id, next);
+      } catch (e) {
+          console.error("Failed to save book settings", e);
       }
-  }, [book.type, settings.pageViewMode]);
+  };
+
+  // Sidebar and dictionary changes go to the book for keys it overrides, to the global settings otherwise
+  const handleSettingsChange = (next: ReaderSettings) => {
+      const patch = splitSettingsChange(next, effectiveSettings, book, bookSettings);
+      if (Object.keys(patch.global).length > 0) setSettings({ ...settings, ...patch.global });
+      if (Object.keys(patch.book).length > 0) handleUpdateBookSettings({ ...bookSettings, ...patch.book });
+  };
 
   const loadBookData = async () => {
     try {
-        const { zipInstance, imageFiles: files } = await initZip(book.file);
-        setZip(zipInstance);
-        setImageFiles(files);
-        if (book.translatedFile) {
+        // Linked files need read permission again after the browser restarts
+        if (book.fileHandle && !book.unpackedPages?.length && !(await requestHandlePermission(book.fileHandle))) {
+            setNeedsFileAccess(true);
+            return;
+        }
+        setNeedsFileAccess(false);
+        const files = await getBookFiles(book.id);
+        const openArchive = async () => {
+            const archive = await getBookArchive(book, files);
+            if (!archive) throw new Error("Book files missing");
+            return initBookSource(archive);
+        };
+        // Unpacked books read single pages from IndexedDB instead of parsing the archive
+        // A page missing from the store falls back to the original archive
+        const src = book.unpackedPages?.length
+            ? openStoredPages(book.id, book.unpackedPages, book.unpackedComicInfo || null, openArchive)
+            : await openArchive();
+        setSource(withPageTransforms(src));
+        setArchiveFiles(src.imageFiles);
+        if (files?.translatedFile) {
             try {
-                const { zipInstance: tZip, imageFiles: tFiles } = await initZip(book.translatedFile);
-                setTranslatedZip(tZip);
-                setTranslatedImageFiles(tFiles);
+                const tSrc = await initBookSource(files.translatedFile);
+                setTranslatedSource(withPageTransforms(tSrc));
+                setTranslatedImageFiles(tSrc.imageFiles);
             } catch (e) { console.error("Failed to load translation", e); }
         }
-        if (book.mokuroFile) {
-            const mData = await parseMokuro(book.mokuroFile);
+        if (files?.mokuroFile) {
+            const mData = await parseMokuro(files.mokuroFile);
             setMokuroData(mData);
         }
-    } catch (e) { alert("Failed to load book content."); }
+    } catch (e) {
+        if (e instanceof DOMException && e.name === 'NotFoundError') alert(t(settings.language, 'linkedFileMissing'));
+        else alert("Failed to load book content.");
+    }
+  };
+
+  // Runs from the button click, which lets the browser show the permission prompt
+  const handleGrantFileAccess = async () => {
+      if (book.fileHandle && await requestHandlePermission(book.fileHandle)) loadBookData();
   };
   
   useEffect(() => { loadBookData(); }, []);
 
+  // Page count feeds the library progress bars and series completion
+  useEffect(() => {
+      if (imageFiles.length > 0 && book.pageCount !== imageFiles.length) {
+          book.pageCount = imageFiles.length;
+          updateBookPageCount(book.id, imageFiles.length);
+      }
+  }, [imageFiles.length]);
+
+  useEffect(() => {
+      if (!book.series) return;
+      getAllBooks().then(all => setNextVolume(findNextVolume(book, all)));
+  }, [book.id]);
+
+  // Release decoded archives and their cached pages when the reader closes or a source is swapped
+  useEffect(() => () => {
+      if (source) releaseSourceImages(source);
+      closeBookSource(source);
+  }, [source]);
+  useEffect(() => () => {
+      if (translatedSource) releaseSourceImages(translatedSource);
+      closeBookSource(translatedSource);
+  }, [translatedSource]);
+
+  // Slider changes settle before the pages on screen are decoded again
+  const [appliedAdjustments, setAppliedAdjustments] = useState(effectiveSettings.imageAdjustments);
+  useEffect(() => {
+      const timer = setTimeout(() => setAppliedAdjustments(effectiveSettings.imageAdjustments), 300);
+      return () => clearTimeout(timer);
+  }, [effectiveSettings.imageAdjustments]);
+
+  // Pages are read through a source per set of adjustments; webtoon strips are never trimmed
+  const isWebtoonMode = effectiveSettings.pageViewMode === 'webtoon';
+  const isDarkTheme = settings.theme === 'dark';
+  const pageAdjustments = React.useMemo(
+      () => appliedAdjustments?.autoCrop && isWebtoonMode ? { ...appliedAdjustments, autoCrop: false } : appliedAdjustments,
+      [appliedAdjustments, isWebtoonMode]
+  );
+  const pageSource = React.useMemo(() => source && withImageAdjustments(source, pageAdjustments, isDarkTheme), [source, pageAdjustments, isDarkTheme]);
+  const pageTranslatedSource = React.useMemo(() => translatedSource && withImageAdjustments(translatedSource, pageAdjustments, isDarkTheme), [translatedSource, pageAdjustments, isDarkTheme]);
+  useEffect(() => () => { if (pageSource) releaseSourceImages(pageSource); }, [pageSource]);
+  useEffect(() => () => { if (pageTranslatedSource) releaseSourceImages(pageTranslatedSource); }, [pageTranslatedSource]);
+
+  useEffect(() => {
+      setImageCacheBudget(settings.imageCacheSize || DEFAULT_IMAGE_CACHE_MB);
+  }, [settings.imageCacheSize]);
+
   const refreshBookData = async () => {
-      const db = await openDB();
-      const tx = db.transaction('books', 'readonly');
-      const store = tx.objectStore('books');
-      const req = store.get(book.id);
-      req.onsuccess = async () => {
-          const updatedBook = req.result as Book;
-          // Sync book data including language
-          book.language = updatedBook.language;
-          if (updatedBook.translatedFile && updatedBook.translatedFile !== book.translatedFile) {
-              const { zipInstance, imageFiles } = await initZip(updatedBook.translatedFile);
-              setTranslatedZip(zipInstance);
-              setTranslatedImageFiles(imageFiles);
+      const updatedBook = await getBook(book.id);
+      if (!updatedBook) return;
+      // Sync book data including language
+      book.language = updatedBook.language;
+      // Blobs are only read back when the translation actually changed
+      const translatedSize = updatedBook.fileSizes?.translatedFile;
+      if (translatedSize !== book.fileSizes?.translatedFile) {
+          const files = translatedSize ? await getBookFiles(book.id) : undefined;
+          if (files?.translatedFile) {
+              const tSrc = await initBookSource(files.translatedFile);
+              setTranslatedSource(withPageTransforms(tSrc));
+              setTranslatedImageFiles(tSrc.imageFiles);
+          } else {
+              setTranslatedSource(null);
+              setTranslatedImageFiles([]);
           }
-          book.pageOffset = updatedBook.pageOffset;
-          book.translatedFile = updatedBook.translatedFile;
-          setBookmarks(updatedBook.bookmarks || []);
-      };
+      }
+      book.pageOffset = updatedBook.pageOffset;
+      book.fileSizes = updatedBook.fileSizes;
+      book.spreadOffset = updatedBook.spreadOffset;
+      setSpreadOffset(!!updatedBook.spreadOffset);
+      book.readingDirection = updatedBook.readingDirection;
+      book.settings = updatedBook.settings;
+      setBookSettings(getBookSettings(updatedBook));
+      setBookmarks(updatedBook.bookmarks || []);
   };
 
-  const preloadImage = async (filename: string, source: 'orig' | 'trans'): Promise<string> => {
-      const cacheKey = `${source}:${filename}`;
-      if (imageCache.current.has(cacheKey)) return imageCache.current.get(cacheKey)!;
-      let url = '';
-      if (source === 'orig' && zip) url = await loadImage(zip, filename);
-      else if (source === 'trans' && translatedZip) url = await loadImage(translatedZip, filename);
-      if (url) imageCache.current.set(cacheKey, url);
-      return url;
+  // Loads started by this reader, keyed by side and file name, so stale ones can be cancelled
+  const loadControllers = useRef<Map<string, AbortController>>(new Map());
+
+  const preloadImage = (filename: string, side: 'orig' | 'trans'): Promise<string> => {
+      const src = side === 'orig' ? pageSource : pageTranslatedSource;
+      if (!src) return Promise.resolve('');
+      const key = `${side}:${filename}`;
+      let controller = loadControllers.current.get(key);
+      if (!controller) {
+          controller = new AbortController();
+          loadControllers.current.set(key, controller);
+      }
+      const current = controller;
+      return loadCachedImage(src, filename, current.signal).finally(() => {
+          if (loadControllers.current.get(key) === current) loadControllers.current.delete(key);
+      });
   };
 
+  // Translated page shown next to an original page in compare mode.
+  // The offset aligns archive positions, and the page's rotation and split carry over.
+  const translatedFileAt = (index: number) => {
+      if (!settings.compareMode || !translatedSource || !pages[index]) return null;
+      const tIdx = pages[index].archiveIndex + (book.pageOffset || 0);
+      return tIdx >= 0 && tIdx < translatedImageFiles.length ? getTransformedName(translatedImageFiles[tIdx], pages[index]) : null;
+  };
+
+  // OCR is matched on the archive image, then moved onto the split or rotated page and its trimmed area
+  const ocrPageAt = useCallback((index: number): MokuroPage | null => {
+      const page = pages[index];
+      if (!mokuroData || !page) return null;
+      const ocr = mokuroData.pages.find(p => p.img_path.includes(page.file)) || mokuroData.pages[page.archiveIndex];
+      const transformed = ocr ? transformOcrPage(ocr, page, source?.getOriginalSize(page.file)) : null;
+      return transformed && cropOcrPage(transformed, pageSource?.getCrop(page.name));
+  }, [pages, mokuroData, source, pageSource]);
+
+  // Direction of the last page turn, the preload window follows it
+  const readStep = useRef<1 | -1>(1);
+  const lastPage = useRef(currentPage);
+
   const handleWebtoonPageChange = useCallback((page: number) => {
       if (page !== currentPage) {
           setCurrentPage(page);
@@ -187,68 +334,172 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
       }
   }, [book.id, currentPage]);
 
+  // Page sizes by name, from decoded pages; a bump of sizesVersion re-pairs the spreads
+  const pageSizes = useRef<Map<string, { width: number; height: number }>>(new Map());
+  const [sizesVersion, setSizesVersion] = useState(0);
+  const isDoubleMode = effectiveSettings.pageViewMode === 'double' && !settings.compareMode;
+
+  const isLandscapeAt = (index: number) => {
+      const ocr = ocrPageAt(index);
+      const size = pageSizes.current.get(imageFiles[index]) ||
+          (ocr?.img_width && ocr.img_height ? { width: ocr.img_width, height: ocr.img_height } : undefined);
+      return !!size && size.width > size.height;
+  };
+
+  // First page of the spread each page belongs to, in double mode
+  const spreadStarts = React.useMemo(() => {
+      if (!isDoubleMode) return null;
+      const comicInfo = source?.comicInfo || null;
+      return buildSpreadStarts(imageFiles.length, i => isSoloPage(comicInfo, pages[i].archiveIndex) || isLandscapeAt(i), spreadOffset);
+  }, [isDoubleMode, imageFiles, pages, source, ocrPageAt, spreadOffset, sizesVersion]);
+
+  // Pages shown together with the page at index, in reading order
+  const spreadAt = useCallback((index: number) => spreadStarts ? getSpreadPages(spreadStarts, index) : [index], [spreadStarts]);
+
+  // Returns true when the page turned out to be landscape, which changes the pairing
+  const measurePage = async (index: number, url: string) => {
+      const name = imageFiles[index];
+      if (!spreadStarts || !url || pageSizes.current.has(name)) return false;
+      const size = await getImageSize(url);
+      if (!size) return false;
+      pageSizes.current.set(name, size);
+      if (size.width <= size.height) return false;
+      setSizesVersion(v => v + 1);
+      return true;
+  };
+
   useEffect(() => {
-    if (settings.pageViewMode === 'webtoon') return;
-    if (!zip || imageFiles.length === 0) return;
+    if (effectiveSettings.pageViewMode === 'webtoon') return;
+    if (!pageSource || imageFiles.length === 0) return;
     
     let active = true;
 
+    if (currentPage !== lastPage.current) {
+        readStep.current = currentPage > lastPage.current ? 1 : -1;
+        lastPage.current = currentPage;
+    }
+
+    const visible = spreadAt(currentPage);
+    const windowStart = readStep.current > 0 ? visible[visible.length - 1] : visible[0];
+    const ahead = getPreloadIndices(windowStart, readStep.current, settings.preloadPages ?? DEFAULT_PRELOAD_PAGES, imageFiles.length);
+
+    // Drop queued decodes for pages the reader has moved away from
+    const wanted = new Set<string>();
+    [...visible, ...ahead].forEach(idx => {
+        wanted.add(`orig:${imageFiles[idx]}`);
+        const tFilename = translatedFileAt(idx);
+        if (tFilename) wanted.add(`trans:${tFilename}`);
+    });
+    loadControllers.current.forEach((controller, key) => {
+        if (wanted.has(key)) return;
+        controller.abort();
+        loadControllers.current.delete(key);
+    });
+
+    // Pages on screen stay pinned in the cache until the next page turn
+    const releases = visible.flatMap(idx => {
+        const tFilename = translatedFileAt(idx);
+        return tFilename && pageTranslatedSource
+            ? [retainImage(pageSource, imageFiles[idx]), retainImage(pageTranslatedSource, tFilename)]
+            : [retainImage(pageSource, imageFiles[idx])];
+    });
+
     const loadPages = async () => {
-        const pages: PageContent[] = [];
-        const indicesToLoad: number[] = [currentPage];
-        if (settings.pageViewMode === 'double' && !settings.compareMode && currentPage + 1 < imageFiles.length) {
-            indicesToLoad.push(currentPage + 1);
-        }
+        const content: PageContent[] = [];
+        let repaired = false;
 
-        for (const idx of indicesToLoad) {
+        for (const idx of visible) {
             const filename = imageFiles[idx];
             const url = await preloadImage(filename, 'orig');
-            
-            let ocr: MokuroPage | null = null;
-            if (mokuroData) {
-                 ocr = mokuroData.pages.find(p => p.img_path.includes(filename)) || mokuroData.pages[idx] || null;
-            } 
-
-            pages.push({ url, ocr, isTranslated: false });
-
-            if (settings.compareMode && translatedZip) {
-                const tIdx = idx + (book.pageOffset || 0);
-                if (tIdx >= 0 && tIdx < translatedImageFiles.length) {
-                    const tFilename = translatedImageFiles[tIdx];
-                    const tUrl = await preloadImage(tFilename, 'trans');
-                    pages.push({ url: tUrl, ocr: null, isTranslated: true });
-                }
+            // A landscape page found while pairing re-runs this effect with the new spread
+            if (visible.length > 1 && await measurePage(idx, url)) repaired = true;
+            const ocr = ocrPageAt(idx);
+
+            content.push({ url, ocr, isTranslated: false });
+
+            const tFilename = translatedFileAt(idx);
+            if (tFilename) {
+                const tUrl = await preloadImage(tFilename, 'trans');
+                content.push({ url: tUrl, ocr: null, isTranslated: true });
             }
         }
-        if (active) setCurrentPagesData(pages);
+        if (active && !repaired) setCurrentPagesData(content);
         
-        for(let i=1; i<=3; i++) {
-            if(currentPage + i < imageFiles.length) preloadImage(imageFiles[currentPage+i], 'orig');
-        }
+        ahead.forEach(idx => {
+            preloadImage(imageFiles[idx], 'orig').then(url => active && measurePage(idx, url));
+            const tFilename = translatedFileAt(idx);
+            if (tFilename) preloadImage(tFilename, 'trans');
+        });
     };
     loadPages();
-    return () => { active = false; };
-  }, [zip, imageFiles, currentPage, settings.pageViewMode, settings.compareMode, mokuroData, translatedZip, book.pageOffset, showOcr]); 
+    return () => {
+        active = false;
+        releases.forEach(release => release());
+    };
+  }, [pageSource, imageFiles, currentPage, effectiveSettings.pageViewMode, settings.compareMode, settings.preloadPages, ocrPageAt, pageTranslatedSource, book.pageOffset, showOcr, spreadAt]); 
 
   // Update progress and stats when page changes
   useEffect(() => {
-      if (settings.pageViewMode !== 'webtoon') {
+      if (effectiveSettings.pageViewMode !== 'webtoon') {
           const t = setTimeout(() => {
               updateBookProgress(book.id, currentPage);
               // Count page read
-              const pagesViewed = (settings.pageViewMode === 'double' && !settings.compareMode) ? 2 : 1;
+              const pagesViewed = spreadAt(currentPage).length;
               updateBookStats(book.id, 0, pagesViewed);
           }, 500);
           return () => clearTimeout(t);
       }
   }, [currentPage]);
   
-  const step = (settings.pageViewMode === 'double' && !settings.compareMode) ? 2 : 1;
-  const prevPage = useCallback(() => { setCurrentPage(p => Math.max(0, p - step)); setScale(1); }, [step]);
-  const nextPage = useCallback(() => { setCurrentPage(p => Math.min(imageFiles.length - 1, p + step)); setScale(1); }, [imageFiles.length, step]);
+  // Turns move from spread to spread in reading order; the key mapping handles the direction
+  const nextPage = useCallback(() => {
+      setCurrentPage(p => {
+          const shown = spreadAt(p);
+          return Math.min(imageFiles.length - 1, shown[shown.length - 1] + 1);
+      });
+  }, [spreadAt, imageFiles.length]);
+  const prevPage = useCallback(() => {
+      setCurrentPage(p => {
+          const first = spreadAt(p)[0];
+          return first > 0 ? spreadAt(first - 1)[0] : 0;
+      });
+  }, [spreadAt]);
   const toggleFullscreen = () => { if (!document.fullscreenElement) document.documentElement.requestFullscreen(); else document.exitFullscreen(); };
 
+  // Page keys follow the screen: nextPage is the right-hand page, so rtl books go back with it
+  const turnPage = (toRight: boolean) => {
+      if (effectiveSettings.pageViewMode === 'webtoon') {
+          const el = containerRef.current?.querySelector('.overflow-y-auto');
+          el?.scrollBy({ top: (toRight ? 1 : -1) * window.innerHeight * 0.8, behavior: 'smooth' });
+      } else if (toRight === (effectiveSettings.readingDirection === 'ltr')) {
+          nextPage();
+      } else {
+          prevPage();
+      }
+  };
+
+  const runAction = (action: KeyAction) => {
+      switch (action) {
+          case 'nextPage': turnPage(true); break;
+          case 'prevPage': turnPage(false); break;
+          case 'toggleMenu': setActiveSidebar(prev => prev === 'none' ? 'settings' : 'none'); break;
+          case 'fullscreen': toggleFullscreen(); break;
+          case 'toggleBookmarks': setActiveSidebar(prev => prev === 'bookmarks' ? 'none' : 'bookmarks'); break;
+          case 'addBookmark': handleAddBookmark(); break;
+          case 'ocrCrop': toggleOcrSelection(); break;
+          case 'magnifier': setIsMagnifying(prev => !prev); setIsOcrSelecting(false); break;
+          case 'toggleOcr': setShowOcr(prev => !prev); break;
+          case 'dictionarySearch': setDictQuery({ text: '', context: '' }); break;
+          case 'compareMode': setSettings({ ...settings, compareMode: !settings.compareMode }); break;
+          case 'pageOrganizer': if (source) setShowPageOrganizer(true); break;
+      }
+  };
+  // The listeners below stay subscribed across renders and call the latest handler
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+
   // Improved Gamepad Support with Sidebar check
+  const gamepadBindings = settings.gamepadBindings || DEFAULT_GAMEPAD_BINDINGS;
   const lastGamepadAction = useRef(0);
   useEffect(() => {
       let rafId: number;
@@ -267,23 +518,10 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
                   gp.buttons.forEach((btn, idx) => { if (btn.pressed) pressedInputs.push(`GP_Btn_${idx}`); });
                   gp.axes.forEach((val, idx) => { if (val < -0.5) pressedInputs.push(`GP_Axis_${idx}_-`); if (val > 0.5) pressedInputs.push(`GP_Axis_${idx}_+`); });
 
-                  if (pressedInputs.length > 0) {
-                      const keys = settings.keybindings;
-                      const matches = (actionKeys: string[]) => actionKeys.some(k => pressedInputs.includes(k));
-
-                      if (matches(keys.prevPage)) {
-                          settings.readingDirection === 'ltr' ? prevPage() : nextPage();
-                          lastGamepadAction.current = now;
-                      } else if (matches(keys.nextPage)) {
-                          settings.readingDirection === 'ltr' ? nextPage() : prevPage();
-                          lastGamepadAction.current = now;
-                      } else if (matches(keys.toggleMenu)) {
-                          setActiveSidebar(prev => prev === 'none' ? 'settings' : 'none');
-                          lastGamepadAction.current = now;
-                      } else if (matches(keys.fullscreen)) {
-                          toggleFullscreen();
-                          lastGamepadAction.current = now;
-                      }
+                  const action = pressedInputs.length > 0 && findBindingAction(gamepadBindings, pressedInputs);
+                  if (action) {
+                      runActionRef.current(action);
+                      lastGamepadAction.current = now;
                   }
               }
           }
@@ -291,7 +529,7 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
       };
       rafId = requestAnimationFrame(pollGamepad);
       return () => cancelAnimationFrame(rafId);
-  }, [nextPage, prevPage, settings.readingDirection, settings.keybindings, activeSidebar]);
+  }, [gamepadBindings, activeSidebar]);
 
   useEffect(() => {
       const handleKey = (e: KeyboardEvent) => {
@@ -308,35 +546,21 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
 
           // Disable shortcuts if sidebar is open (to prevent conflict with recording)
           if (activeSidebar === 'settings') return;
-
-          const keys = settings.keybindings;
-          if (keys.nextPage.includes(e.key)) {
-              if (settings.pageViewMode === 'webtoon') {
-                  const el = containerRef.current?.querySelector('.overflow-y-auto');
-                  el?.scrollBy({ top: window.innerHeight * 0.8, behavior: 'smooth' });
-              } else {
-                  settings.readingDirection === 'ltr' ? nextPage() : prevPage();
-              }
-          }
-          else if (keys.prevPage.includes(e.key)) {
-               if (settings.pageViewMode === 'webtoon') {
-                  const el = containerRef.current?.querySelector('.overflow-y-auto');
-                  el?.scrollBy({ top: -window.innerHeight * 0.8, behavior: 'smooth' });
-              } else {
-                  settings.readingDirection === 'ltr' ? prevPage() : nextPage();
-              }
-          }
-          else if (keys.toggleMenu.includes(e.key)) setActiveSidebar(prev => prev === 'none' ? 'settings' : 'none');
-          else if (keys.fullscreen.includes(e.key)) toggleFullscreen();
+          // Typing in the dictionary search or a bookmark note is not a shortcut
+          const target = e.target as HTMLElement | null;
+          if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+          const chord = getKeyChord(e);
+          const action = chord && findBindingAction(settings.keybindings, [chord]);
+          if (!action) return;
+          e.preventDefault();
+          runActionRef.current(action);
       };
       const handleFs = () => setIsFullscreen(!!document.fullscreenElement);
       window.addEventListener('keydown', handleKey);
       document.addEventListener('fullscreenchange', handleFs);
       return () => { window.removeEventListener('keydown', handleKey); document.removeEventListener('fullscreenchange', handleFs); };
-  }, [nextPage, prevPage, settings, isOcrSelecting, isCroppingForBookmark, activeSidebar]);
-
-  const handleLeftClick = settings.readingDirection === 'ltr' ? prevPage : nextPage;
-  const handleRightClick = settings.readingDirection === 'ltr' ? nextPage : prevPage;
+  }, [settings.keybindings, isOcrSelecting, isCroppingForBookmark, editingBookmark, activeSidebar]);
 
   const captureCurrentPageImage = async () => {
       if (!currentPagesData[0]) return undefined;
@@ -401,7 +625,7 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
       setIsOcrLoading(true);
       ocrCancelledRef.current = false;
       try {
-          const result = await runTesseract(dataUrl, settings.tesseractLanguage, 'crop.png');
+          const result = await runTesseract(dataUrl, effectiveSettings.tesseractLanguage, 'crop.png');
           
           if (ocrCancelledRef.current) return;
 
@@ -455,6 +679,28 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
       setEditingBookmark(null);
   };
 
+  // Progress and bookmarks follow their pages into the new order
+  const handleSavePageManifest = async (manifest: PageManifestEntry[] | undefined) => {
+      const nextPages = resolvePages(archiveFiles, manifest);
+      const remap = (index: number) => remapPageIndex(pages, nextPages, index);
+      const nextBookmarks = bookmarks.map(bm => ({
+          ...bm,
+          pageIndex: remap(bm.pageIndex),
+          endPageIndex: bm.endPageIndex !== undefined ? remap(bm.endPageIndex) : undefined
+      }));
+      const movedPage = remap(currentPage);
+
+      await updateBookPageManifest(book.id, manifest);
+      await updateBookBookmarks(book.id, nextBookmarks);
+      await updateBookProgress(book.id, movedPage);
+      book.pageManifest = manifest;
+      setPageManifest(manifest);
+      setBookmarks(nextBookmarks);
+      lastPage.current = movedPage;
+      setCurrentPage(movedPage);
+      setShowPageOrganizer(false);
+  };
+
   const jumpToPage = (idx: number) => {
       setCurrentPage(idx);
       setActiveSidebar('none');
@@ -475,6 +721,26 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
       setIsMagnifying(false);
   };
 
+  const handleTap = (x: number, y: number): boolean => {
+      if (isOcrSelecting || isMagnifying) return false;
+      switch (getTapAction(settings.tapZones, x, y, effectiveSettings.readingDirection)) {
+          case 'next': nextPage(); return true;
+          case 'prev': prevPage(); return true;
+          case 'menu': setActiveSidebar(prev => prev === 'none' ? 'settings' : 'none'); return true;
+          case 'bookmark': handleAddBookmark(); return true;
+          case 'ocrCrop': toggleOcrSelection(); return true;
+          default: return false;
+      }
+  };
+
+  // The finger moves against the reading direction to go forward
+  const handleSwipe = (direction: 'left' | 'right') => {
+      if (isOcrSelecting || isMagnifying) return;
+      const forward = effectiveSettings.readingDirection === 'rtl' ? 'right' : 'left';
+      if (direction === forward) nextPage();
+      else prevPage();
+  };
+
   // Helper to extract image data from box
   const extractImageFromBox = async (box: {x: number, y: number, w: number, h: number}, returnBlob = false) => {
       if(!currentPagesData[0]) return;
@@ -506,6 +772,16 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
 
   return (
     <div ref={containerRef} className={`fixed inset-0 flex flex-col w-screen overflow-hidden ${isIOS ? 'h-[100dvh]' : 'h-screen'} ${settings.theme === 'light' ? 'bg-zinc-100' : 'bg-black'}`}>
+        {needsFileAccess && (
+            <div className="absolute inset-0 z-30 flex items-center justify-center p-4">
+                <div className={`max-w-sm w-full rounded-2xl p-6 text-center space-y-4 shadow-2xl border ${settings.theme === 'light' ? 'bg-white border-zinc-200 text-zinc-800' : 'bg-surfaceLight border-white/10 text-zinc-100'}`}>
+                    <FolderLock size={32} className="mx-auto text-primary" />
+                    <p className="text-sm">{t(settings.language, 'fileAccessNeeded')}</p>
+                    <p className="text-xs text-zinc-500 font-mono truncate" title={book.fileHandle?.name}>{book.fileHandle?.name}</p>
+                    <button onClick={handleGrantFileAccess} className="w-full py-2 rounded-xl bg-primary hover:bg-blue-600 text-white font-bold text-sm transition-colors">{t(settings.language, 'grantAccess')}</button>
+                </div>
+            </div>
+        )}
         <div className={`absolute top-0 left-0 right-0 h-14 z-40 flex items-center justify-between px-4 pointer-events-none hover:opacity-100 transition-opacity group ${settings.theme === 'light' ? 'bg-gradient-to-b from-zinc-200/90 to-transparent text-zinc-800' : 'bg-gradient-to-b from-black/80 to-transparent text-white'}`}>
             <div className="flex items-center gap-2 pointer-events-auto">
                 <button onClick={onExit} className={`p-2 rounded-full backdrop-blur-sm ${settings.theme === 'light' ? 'bg-white/50 hover:bg-white text-zinc-700' : 'bg-black/40 hover:text-white text-white/80'}`}><ArrowLeft size={20} /></button>
@@ -517,7 +793,7 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
                     onClick={() => setActiveSidebar(prev => prev === 'bookmarks' ? 'none' : 'bookmarks')} 
                     className="cursor-pointer hover:opacity-75"
                 >
-                    {imageFiles.length > 0 ? `${currentPage + 1}` : 'Loading...'}
+                    {imageFiles.length > 0 ? spreadAt(currentPage).map(i => i + 1).join('-') : 'Loading...'}
                 </span>
             </div>
 
@@ -543,6 +819,14 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
                  >
                     {isOcrLoading ? <X size={20} /> : <Crop size={20} />}
                  </button>
+                 <button 
+                    onClick={() => setShowPageOrganizer(true)} 
+                    disabled={!source}
+                    className={`p-2 rounded-full backdrop-blur-sm transition-colors disabled:opacity-50 ${settings.theme === 'light' ? 'text-zinc-700 bg-white/50 hover:bg-white' : 'text-white/80 hover:text-white bg-black/40'}`}
+                    title={t(settings.language, 'pageOrganizer')}
+                 >
+                    <LayoutGrid size={20} />
+                 </button>
                  <button onPointerUp={() => setDictQuery({text: '', context: ''})} className={`p-2 rounded-full backdrop-blur-sm pointer-events-auto ${settings.theme === 'light' ? 'text-zinc-700 bg-white/50 hover:bg-white' : 'text-white/80 hover:text-white bg-black/40'}`}><Search size={20} /></button>
                  <button onClick={toggleFullscreen} className={`p-2 rounded-full backdrop-blur-sm pointer-events-auto ${settings.theme === 'light' ? 'text-zinc-700 bg-white/50 hover:bg-white' : 'text-white/80 hover:text-white bg-black/40'}`}>{isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}</button>
                 <button onClick={() => setActiveSidebar(prev => prev === 'settings' ? 'none' : 'settings')} className={`p-2 rounded-full backdrop-blur-sm pointer-events-auto ${settings.theme === 'light' ? 'text-zinc-700 bg-white/50 hover:bg-white' : 'text-white/80 hover:text-white bg-black/40'}`}><Settings size={20} /></button>
@@ -564,13 +848,14 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
                 showOcr={showOcr} 
                 onOcrClick={(text) => handleOcrClick(text)}
                 scale={scale} setScale={setScale}
-                readingDirection={settings.readingDirection}
+                readingDirection={effectiveSettings.readingDirection}
                 settings={effectiveSettings} 
                 pages={currentPagesData}
-                zip={zip} imageFiles={imageFiles}
-                translatedZip={translatedZip} translatedImageFiles={translatedImageFiles}
+                source={pageSource} imageFiles={imageFiles}
+                translatedSource={pageTranslatedSource} translatedImageFiles={translatedImageFiles}
                 pageOffset={book.pageOffset}
                 mokuroData={mokuroData}
+                getOcrPage={ocrPageAt}
                 currentPage={currentPage}
                 onPageChange={handleWebtoonPageChange}
                 isSelecting={isOcrSelecting}
@@ -578,21 +863,21 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
                 highlightOcr={false} 
                 isMagnifying={isMagnifying}
                 magnifierLevel={magnifierLevel}
+                onTap={handleTap}
+                onSwipe={handleSwipe}
             />
-            {settings.pageViewMode !== 'webtoon' && !isOcrSelecting && !isMagnifying && (
-                <>
-                    <div className={`absolute inset-y-0 left-0 w-12 z-30 cursor-pointer flex items-center justify-center transition-all duration-100 ${isLeftActive ? 'bg-blue-500/20' : 'hover:bg-transparent'}`}
-                        onPointerDown={() => setIsLeftActive(true)} onPointerUp={() => { setIsLeftActive(false); handleLeftClick(); }} onPointerLeave={() => setIsLeftActive(false)}>
-                        <ChevronLeft size={48} className="text-white/50 drop-shadow-lg opacity-0 hover:opacity-100 transition-opacity" />
-                    </div>
-                    <div className={`absolute inset-y-0 right-0 w-12 z-30 cursor-pointer flex items-center justify-center transition-all duration-100 ${isRightActive ? 'bg-blue-500/20' : 'hover:bg-transparent'}`}
-                        onPointerDown={() => setIsRightActive(true)} onPointerUp={() => { setIsRightActive(false); handleRightClick(); }} onPointerLeave={() => setIsRightActive(false)}>
-                        <ChevronRight size={48} className="text-white/50 drop-shadow-lg opacity-0 hover:opacity-100 transition-opacity" />
-                    </div>
-                </>
-            )}
         </div>
 
+        {nextVolume && onOpenBook && imageFiles.length > 0 && spreadAt(currentPage).includes(imageFiles.length - 1) && (
+            <button 
+                onClick={() => onOpenBook(nextVolume)}
+                className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 bg-primary hover:bg-blue-600 text-white rounded-full shadow-lg text-sm font-bold animate-in slide-in-from-bottom-2 max-w-[80vw]"
+            >
+                <SkipForward size={16} className="shrink-0"/>
+                <span className="truncate">{t(settings.language, 'nextVolume')}: {nextVolume.title}</span>
+            </button>
+        )}
+
         {/* Progress bar with bookmark ticks */}
         <div className={`absolute bottom-0 left-0 right-0 h-1 pointer-events-none group z-40 ${settings.theme === 'light' ? 'bg-zinc-300' : 'bg-zinc-800'}`}>
             <div className="h-full bg-primary/60" style={{ width: `${((currentPage + 1) / imageFiles.length) * 100}%` }}></div>
@@ -628,10 +913,12 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
         <Sidebar 
             isOpen={activeSidebar === 'settings'} 
             onClose={() => setActiveSidebar('none')}
-            book={book} onBookUpdate={refreshBookData}
+            book={book} onBookUpdate={refreshBookData} onDataRestored={refreshBookData}
             showOcr={showOcr} setShowOcr={setShowOcr}
             ankiSettings={ankiSettings} setAnkiSettings={setAnkiSettings}
-            readerSettings={effectiveSettings} setReaderSettings={setSettings} 
+            readerSettings={effectiveSettings} setReaderSettings={handleSettingsChange} 
+            onReplaceGlobalSettings={imported => setSettings(prev => ({ ...prev, ...imported }))}
+            bookSettings={bookSettings} onUpdateBookSettings={handleUpdateBookSettings}
             // Bookmarks management moved to specific sidebar, but keeping API for potential direct interactions if needed
             bookmarks={bookmarks} onJumpToPage={jumpToPage} onEditBookmark={setEditingBookmark} onDeleteBookmark={handleDeleteBookmark}
         />
@@ -662,7 +949,21 @@ const Reader: React.FC<ReaderProps> = ({ book, onExit, settings, setSettings, an
                 onClose={() => setDictQuery(null)} 
                 ankiSettings={ankiSettings} 
                 settings={effectiveSettings}
-                onUpdateSettings={setSettings}
+                onUpdateSettings={handleSettingsChange}
+            />
+        )}
+
+        {/* Page Organizer */}
+        {showPageOrganizer && source && (
+            <PageOrganizer
+                source={source}
+                imageFiles={archiveFiles}
+                manifest={pageManifest}
+                readingDirection={effectiveSettings.readingDirection}
+                language={settings.language}
+                theme={settings.theme}
+                onSave={handleSavePageManifest}
+                onClose={() => setShowPageOrganizer(false)}
             />
         )}
 
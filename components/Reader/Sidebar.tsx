@@ -1,14 +1,19 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { AnkiSettingsType, ReaderSettings, Book, Keybindings, Bookmark, WebSearchEngine, LocalDictionary, SUPPORTED_LANGUAGES } from '../../types';
-import { X, Eye, Book as BookIcon, Monitor, Globe, Layout, ArrowRightLeft, ChevronDown, ChevronRight, Upload, Keyboard, RotateCcw, Download, Mic, Database, Wifi, Tag, Sun, Moon, Edit3, Trash2, Settings, Loader2, Save, Bookmark as BookmarkIcon, Play, Copy, BookOpenText, Info, ArrowUp, ArrowDown, Activity } from 'lucide-react';
+import { AnkiSettingsType, ReaderSettings, Book, Keybindings, KeyAction, Bookmark, WebSearchEngine, LocalDictionary, SUPPORTED_LANGUAGES, StorageBackend, BookSettings, BookSettingKey, FitMode, ImageAdjustments, TapAction, TapZonePreset } from '../../types';
+import { X, Eye, Book as BookIcon, Monitor, Globe, Layout, ArrowRightLeft, ChevronDown, ChevronRight, Upload, Keyboard, RotateCcw, Download, Mic, Database, Wifi, Tag, Sun, Moon, Edit3, Trash2, Settings, Loader2, Save, Bookmark as BookmarkIcon, Play, Copy, BookOpenText, Info, ArrowUp, ArrowDown, Activity, HardDrive, Layers, Columns2, ArchiveRestore, BookMarked, ZoomIn, Crop, Contrast, Hand, MoveHorizontal, Gamepad2 } from 'lucide-react';
 import { getDecks, getModels, getModelFields } from '../../services/anki';
-import { updateBookTranslatedFile, updateBookOffset, exportData, updateBookAnkiTags } from '../../services/db';
-import { getDictionaries, deleteDictionary, updateDictionaryPriority } from '../../services/db';
+import { updateBookTranslatedFile, updateBookOffset, updateBookSpreadOffset, exportData, updateBookAnkiTags, getAllBooks } from '../../services/db';
+import { getDictionaries, getTrashedDictionaries, trashDictionary, restoreDictionary, deleteDictionary, updateDictionaryPriority, isStorageBackendAvailable, migrateBookStorage } from '../../services/db';
 import { importYomitanDictionary } from '../../services/dictionary';
-import { t } from '../../services/i18n';
+import { createBackup, readBackup, restoreBackup, BackupManifest, BackupMode, RestoreMode, readProgressExport, planProgressImport, applyProgressImport, ProgressExport, ProgressImportItem } from '../../services/backup';
+import { t, translations } from '../../services/i18n';
+import StoragePanel from './StoragePanel';
 import { OCR_LANGUAGES } from '../../services/ocr';
+import { BOOK_FILE_ACCEPT } from '../../services/parser';
+import { KEY_ACTIONS, DEFAULT_KEYBINDINGS, DEFAULT_GAMEPAD_BINDINGS, getKeyChord, findBindingConflicts, formatBinding } from '../../services/keybindings';
+import { TAP_ZONE_PRESETS, TAP_ACTIONS, getTapZones, getTapZonePreset } from '../../services/tapZones';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -21,12 +26,33 @@ interface SidebarProps {
   setAnkiSettings: (s: AnkiSettingsType) => void;
   readerSettings: ReaderSettings;
   setReaderSettings: (s: ReaderSettings) => void;
+  onReplaceGlobalSettings?: (s: ReaderSettings) => void; // Imported settings, bypassing the book layer
   bookmarks?: Bookmark[]; 
   onJumpToPage?: (idx: number) => void;
   onEditBookmark?: (bm: Bookmark) => void;
   onDeleteBookmark?: (id: string) => void;
+  onDataRestored?: () => void;
+  bookSettings?: BookSettings; // Keys the open book overrides
+  onUpdateBookSettings?: (s: BookSettings | undefined) => void;
 }
 
+const FIT_MODES: [FitMode, keyof typeof translations['en']][] = [['page', 'fitPage'], ['width', 'fitWidth'], ['height', 'fitHeight'], ['original', 'fitOriginal'], ['custom', 'fitCustom']];
+
+const TAP_PRESET_LABELS: [Exclude<TapZonePreset, 'custom'>, keyof typeof translations['en']][] = [['lShape', 'tapPresetLShape'], ['edges', 'tapPresetEdges'], ['kindle', 'tapPresetKindle']];
+
+const TAP_ACTION_LABELS: Record<TapAction, keyof typeof translations['en']> = {
+    next: 'tapActionNext', prev: 'tapActionPrev', menu: 'tapActionMenu', bookmark: 'tapActionBookmark', ocrCrop: 'tapActionOcrCrop', none: 'tapActionNone'
+};
+
+// Slider settings of the image pipeline: key, label, min, max, step and the value that changes nothing
+const ADJUSTMENT_SLIDERS: [keyof ImageAdjustments, keyof typeof translations['en'], number, number, number, number][] = [
+    ['blackPoint', 'blackPoint', 0, 128, 1, 0],
+    ['whitePoint', 'whitePoint', 128, 255, 1, 255],
+    ['brightness', 'brightness', -100, 100, 1, 0],
+    ['contrast', 'contrast', -100, 100, 1, 0],
+    ['gamma', 'gamma', 0.3, 3, 0.1, 1]
+];
+
 const Section: React.FC<{ 
     title: string; 
     children: React.ReactNode;
@@ -71,12 +97,15 @@ const Toggle: React.FC<{ label: string; checked: boolean; onChange: () => void;
 )};
 
 const Sidebar: React.FC<SidebarProps> = ({
-    isOpen, onClose, book, onBookUpdate, showOcr, setShowOcr, ankiSettings, setAnkiSettings, readerSettings, setReaderSettings, bookmarks, onJumpToPage, onEditBookmark, onDeleteBookmark
+    isOpen, onClose, book, onBookUpdate, showOcr, setShowOcr, ankiSettings, setAnkiSettings, readerSettings, setReaderSettings, onReplaceGlobalSettings, bookmarks, onJumpToPage, onEditBookmark, onDeleteBookmark, onDataRestored, bookSettings, onUpdateBookSettings
 }) => {
-    const [recordingKey, setRecordingKey] = useState<keyof Keybindings | null>(null);
+    const [recordingKey, setRecordingKey] = useState<KeyAction | null>(null);
+    const [bindingProfile, setBindingProfile] = useState<'keyboard' | 'gamepad'>('keyboard');
     const [localKeybindings, setLocalKeybindings] = useState<Keybindings>(readerSettings.keybindings);
+    const [localGamepadBindings, setLocalGamepadBindings] = useState<Keybindings>(readerSettings.gamepadBindings || DEFAULT_GAMEPAD_BINDINGS);
     
     const [offsetInput, setOffsetInput] = useState(book?.pageOffset || 0);
+    const [spreadOffset, setSpreadOffset] = useState(!!book?.spreadOffset);
     const [loadingAnki, setLoadingAnki] = useState(false);
     const [isAnkiConnected, setIsAnkiConnected] = useState(false);
     const [testingExternal, setTestingExternal] = useState(false);
@@ -91,15 +120,29 @@ const Sidebar: React.FC<SidebarProps> = ({
 
     // Local Dictionary State
     const [localDicts, setLocalDicts] = useState<LocalDictionary[]>([]);
+    const [trashedDicts, setTrashedDicts] = useState<LocalDictionary[]>([]);
     const [importingDict, setImportingDict] = useState(false);
     const [importStatus, setImportStatus] = useState('');
     const [importLang, setImportLang] = useState<string>('universal');
 
+    // Backup / Restore State
+    const [backupBusy, setBackupBusy] = useState(false);
+    const [backupStatus, setBackupStatus] = useState('');
+    const [migrateStatus, setMigrateStatus] = useState('');
+    const [pendingRestore, setPendingRestore] = useState<Awaited<ReturnType<typeof readBackup>> | null>(null);
+
+    // Progress JSON Import State (conflict report shown before writing)
+    const [progressImport, setProgressImport] = useState<{ data: ProgressExport; items: ProgressImportItem[]; applySettings: boolean } | null>(null);
+
     // Sync local keys with global when sidebar opens or global changes (if not editing)
     useEffect(() => {
         setLocalKeybindings(readerSettings.keybindings);
     }, [readerSettings.keybindings]);
 
+    useEffect(() => {
+        setLocalGamepadBindings(readerSettings.gamepadBindings || DEFAULT_GAMEPAD_BINDINGS);
+    }, [readerSettings.gamepadBindings]);
+
     useEffect(() => {
         // Update default test text based on learning language
         const msgs: Record<string, string> = {
@@ -143,8 +186,9 @@ const Sidebar: React.FC<SidebarProps> = ({
     }, []);
 
     const loadDictionaries = async () => {
-        const dicts = await getDictionaries();
+        const [dicts, trashed] = await Promise.all([getDictionaries(), getTrashedDictionaries()]);
         setLocalDicts(dicts);
+        setTrashedDicts(trashed);
     };
 
     const handleImportDict = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -165,13 +209,179 @@ const Sidebar: React.FC<SidebarProps> = ({
         }
     };
 
+    // --- Per-book Settings ---
+
+    const bookSettingCount = bookSettings ? Object.keys(bookSettings).length : 0;
+
+    // Pins the current value to the open book, or hands the setting back to the global value
+    const toggleBookSetting = (key: BookSettingKey) => {
+        if (!onUpdateBookSettings) return;
+        if (bookSettings && key in bookSettings) {
+            const { [key]: _removed, ...rest } = bookSettings;
+            onUpdateBookSettings(Object.keys(rest).length > 0 ? rest : undefined);
+        } else {
+            onUpdateBookSettings({ ...bookSettings, [key]: readerSettings[key] });
+        }
+    };
+
+    // Label of a setting the book can override, with a badge showing where its value comes from
+    const renderSettingLabel = (label: string, key: BookSettingKey) => {
+        if (!book || !onUpdateBookSettings) {
+            return <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{label}</label>;
+        }
+        const perBook = !!bookSettings && key in bookSettings;
+        return (
+            <div className="flex items-center justify-between mb-1.5 px-1">
+                <label className={`text-[10px] uppercase font-bold ${textSub}`}>{label}</label>
+                <button
+                    onClick={() => toggleBookSetting(key)}
+                    className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase transition-colors ${perBook ? 'bg-primary/20 text-primary' : `${textSub} ${itemHover}`}`}
+                    title={t(readerSettings.language, perBook ? 'useGlobalSetting' : 'useBookSetting')}
+                >
+                    {perBook ? <BookMarked size={10}/> : <Globe size={10}/>} {t(readerSettings.language, perBook ? 'thisBook' : 'global')}
+                </button>
+            </div>
+        );
+    };
+
+    const adjustments = readerSettings.imageAdjustments || {};
+    const updateAdjustments = (patch: ImageAdjustments) => {
+        setReaderSettings({ ...readerSettings, imageAdjustments: { ...adjustments, ...patch } });
+    };
+
+    const tapZones = getTapZones(readerSettings.tapZones);
+    const tapZonePreset = getTapZonePreset(readerSettings.tapZones);
+
+    // Each tap on a cell moves it to the next action
+    const cycleTapZone = (index: number) => {
+        const next = TAP_ACTIONS[(TAP_ACTIONS.indexOf(tapZones[index]) + 1) % TAP_ACTIONS.length];
+        setReaderSettings({ ...readerSettings, tapZones: tapZones.map((action, i) => i === index ? next : action) });
+    };
+
+    // Dictionaries go to the trash first, like books
     const handleDeleteDict = async (id: string) => {
-        if (confirm("Delete this dictionary?")) {
+        await trashDictionary(id);
+        await loadDictionaries();
+    };
+
+    const handleRestoreDict = async (id: string) => {
+        await restoreDictionary(id);
+        await loadDictionaries();
+    };
+
+    const handleDeleteDictForever = async (id: string) => {
+        if (confirm(t(readerSettings.language, 'deleteForeverConfirm'))) {
             await deleteDictionary(id);
             await loadDictionaries();
         }
     };
 
+    const handleCreateBackup = async (mode: BackupMode) => {
+        setBackupBusy(true);
+        try {
+            await createBackup(readerSettings, mode, setBackupStatus);
+        } catch (err) {
+            alert("Backup failed: " + err);
+        } finally {
+            setBackupBusy(false);
+            setBackupStatus('');
+        }
+    };
+
+    // Moves books added under the previous backend to the selected one
+    const handleMigrateStorage = async () => {
+        const target = readerSettings.storageBackend || 'indexeddb';
+        if (!confirm(t(readerSettings.language, 'migrateStorageConfirm'))) return;
+        setMigrateStatus('...');
+        try {
+            const moved = await migrateBookStorage(target, setMigrateStatus);
+            alert(`${t(readerSettings.language, 'migrateStorageDone')}: ${moved}`);
+            onDataRestored?.();
+        } catch (err) {
+            alert("Migration failed: " + err);
+        } finally {
+            setMigrateStatus('');
+        }
+    };
+
+    const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setBackupBusy(true);
+        try {
+            setPendingRestore(await readBackup(file));
+        } catch (err) {
+            alert("Restore failed: " + err);
+        } finally {
+            setBackupBusy(false);
+        }
+    };
+
+    // Imported settings replace the global ones, whatever the open book overrides
+    const replaceGlobalSettings = (imported: ReaderSettings) => {
+        if (onReplaceGlobalSettings) onReplaceGlobalSettings(imported);
+        else setReaderSettings({ ...readerSettings, ...imported });
+    };
+
+    const handleRestore = async (mode: RestoreMode) => {
+        if (!pendingRestore) return;
+        setBackupBusy(true);
+        try {
+            const { zip, manifest } = pendingRestore;
+            const result = await restoreBackup(zip, manifest, mode, setBackupStatus);
+            // Settings only change on replace, merge keeps the current ones
+            if (mode === 'replace') replaceGlobalSettings(manifest.settings);
+            setPendingRestore(null);
+            await loadDictionaries();
+            onDataRestored?.();
+            alert(`${t(readerSettings.language, 'restoreDone')}\n+${result.added} / ~${result.updated} / -${result.skipped}, ${result.dictionaries} dict`);
+        } catch (err) {
+            alert("Restore failed: " + err);
+        } finally {
+            setBackupBusy(false);
+            setBackupStatus('');
+        }
+    };
+
+    const handleProgressFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const data = await readProgressExport(file);
+            const items = planProgressImport(data, await getAllBooks());
+            setProgressImport({ data, items, applySettings: !!data.settings });
+        } catch (err) {
+            alert("Import failed: " + err);
+        }
+    };
+
+    const toggleProgressItem = (index: number) => {
+        setProgressImport(prev => prev && {
+            ...prev,
+            items: prev.items.map((item, i) => i === index ? { ...item, included: !item.included } : item)
+        });
+    };
+
+    const confirmProgressImport = async () => {
+        if (!progressImport) return;
+        try {
+            const count = await applyProgressImport(progressImport.items);
+            if (progressImport.applySettings && progressImport.data.settings) {
+                replaceGlobalSettings(progressImport.data.settings);
+            }
+            setProgressImport(null);
+            onDataRestored?.();
+            alert(`${t(readerSettings.language, 'importProgressDone')}: ${count}`);
+        } catch (err) {
+            alert("Import failed: " + err);
+        }
+    };
+
+    const describeBackup = (manifest: BackupManifest) =>
+        `${new Date(manifest.createdAt).toLocaleString()} · ${manifest.mode === 'full' ? t(readerSettings.language, 'backupFull') : t(readerSettings.language, 'backupLight')} · ${manifest.books.length} ${t(readerSettings.language, 'books')} · ${manifest.dictionaries.length} dict`;
+
     const moveDict = async (index: number, direction: 'up' | 'down') => {
         if (direction === 'up' && index === 0) return;
         if (direction === 'down' && index === localDicts.length - 1) return;
@@ -218,10 +428,10 @@ const Sidebar: React.FC<SidebarProps> = ({
 
     // Gamepad recording logic - only affects local state
     useEffect(() => {
-        if (!recordingKey) return;
+        if (!recordingKey || bindingProfile !== 'gamepad') return;
         let rafId: number;
         const handleInputRecord = (inputName: string) => {
-            setLocalKeybindings(prev => ({ ...prev, [recordingKey]: [inputName] }));
+            setLocalGamepadBindings(prev => ({ ...prev, [recordingKey]: [inputName] }));
             setRecordingKey(null);
         };
         const pollRecording = () => {
@@ -238,27 +448,44 @@ const Sidebar: React.FC<SidebarProps> = ({
         };
         rafId = requestAnimationFrame(pollRecording);
         return () => cancelAnimationFrame(rafId);
-    }, [recordingKey]);
+    }, [recordingKey, bindingProfile]);
 
     // Keyboard recording logic - only affects local state
     useEffect(() => {
+        if (bindingProfile !== 'keyboard') return;
         const handleKeyDown = (e: KeyboardEvent) => {
             if (recordingKey) { 
                 e.preventDefault(); 
                 e.stopPropagation(); // Stop propagation to reader
-                setLocalKeybindings(prev => ({ ...prev, [recordingKey]: [e.key] })); 
+                // Modifiers alone wait for the key they are held with
+                const chord = getKeyChord(e);
+                if (!chord) return;
+                setLocalKeybindings(prev => ({ ...prev, [recordingKey]: [chord] })); 
                 setRecordingKey(null); 
             }
         };
         window.addEventListener('keydown', handleKeyDown, { capture: true }); // Capture phase to prevent bubbling
         return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
-    }, [recordingKey]);
+    }, [recordingKey, bindingProfile]);
+
+    const localBindings = bindingProfile === 'keyboard' ? localKeybindings : localGamepadBindings;
+    const setLocalBindings = bindingProfile === 'keyboard' ? setLocalKeybindings : setLocalGamepadBindings;
+    const bindingConflicts = findBindingConflicts(localBindings);
+    // Both profiles are saved together, so a conflict in either one blocks saving
+    const hasBindingConflicts = findBindingConflicts(localKeybindings).size > 0 || findBindingConflicts(localGamepadBindings).size > 0;
 
     const handleSaveKeybindings = () => {
-        setReaderSettings({ ...readerSettings, keybindings: localKeybindings });
+        setReaderSettings({ ...readerSettings, keybindings: localKeybindings, gamepadBindings: localGamepadBindings });
         // Optional: Provide feedback
     };
 
+    const handleResetKeybindings = () => {
+        setRecordingKey(null);
+        setReaderSettings(bindingProfile === 'keyboard'
+            ? { ...readerSettings, keybindings: DEFAULT_KEYBINDINGS }
+            : { ...readerSettings, gamepadBindings: DEFAULT_GAMEPAD_BINDINGS });
+    };
+
     const handleTestAnki = async () => {
         setLoadingAnki(true);
         try {
@@ -303,6 +530,14 @@ const Sidebar: React.FC<SidebarProps> = ({
         if (book) { await updateBookOffset(book.id, offsetInput); if (onBookUpdate) onBookUpdate(); }
     };
 
+    const handleToggleSpreadOffset = async () => {
+        if (!book) return;
+        const next = !spreadOffset;
+        setSpreadOffset(next);
+        await updateBookSpreadOffset(book.id, next);
+        if (onBookUpdate) onBookUpdate();
+    };
+
     const handleTransUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (book && e.target.files && e.target.files[0]) { await updateBookTranslatedFile(book.id, e.target.files[0]); if (onBookUpdate) onBookUpdate(); }
     };
@@ -320,14 +555,6 @@ const Sidebar: React.FC<SidebarProps> = ({
         window.speechSynthesis.speak(utt);
     };
 
-    const formatKey = (k: string) => {
-        if (k === ' ') return 'Space';
-        if (k.startsWith('Arrow')) return k.replace('Arrow', '');
-        if (k.startsWith('GP_Btn_')) return `GP ${k.split('_')[2]}`;
-        if (k.startsWith('GP_Axis_')) return `GP Axis ${k.split('_')[2]} ${k.split('_')[3]}`;
-        return k.toUpperCase();
-    };
-
     const theme = readerSettings.theme;
     const isLight = theme === 'light';
     const bgClass = isLight ? 'bg-white/95 border-zinc-200' : 'bg-surface/95 border-white/10';
@@ -457,9 +684,17 @@ const Sidebar: React.FC<SidebarProps> = ({
                             </div>
                         </div>
 
+                        <div>
+                            {renderSettingLabel(t(readerSettings.language, 'dictionarySource'), 'dictionarySource')}
+                            <div className={`flex p-1 rounded-xl ${itemBg}`}>
+                                <button onClick={() => setReaderSettings({...readerSettings, dictionarySource: 'api'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all ${readerSettings.dictionarySource !== 'local' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, 'sourceApi')}</button>
+                                <button onClick={() => setReaderSettings({...readerSettings, dictionarySource: 'local'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all ${readerSettings.dictionarySource === 'local' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, 'sourceLocal')}</button>
+                            </div>
+                        </div>
+
                         {readerSettings.dictionaryMode === 'panel' && (
                             <div className="mt-2 animate-in slide-in-from-top-1">
-                                <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(readerSettings.language, 'overlayStyle')}</label>
+                                {renderSettingLabel(t(readerSettings.language, 'overlayStyle'), 'overlayStyle')}
                                 <div className="grid grid-cols-3 gap-2">
                                     {['hidden', 'outline', 'fill'].map(style => (
                                         <button 
@@ -488,6 +723,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                              </div>
                          )}
 
+                        <Toggle label={t(readerSettings.language, 'unpackOnImport')} checked={!!readerSettings.unpackOnImport} onChange={() => setReaderSettings({...readerSettings, unpackOnImport: !readerSettings.unpackOnImport})} icon={<Layers size={16}/>} theme={theme} />
                         <Toggle label="Auto Copy to Clipboard" checked={readerSettings.copyToClipboard} onChange={() => setReaderSettings({...readerSettings, copyToClipboard: !readerSettings.copyToClipboard})} icon={<Copy size={16}/>} theme={theme} />
                         
                         <Toggle label={t(readerSettings.language, 'ttsEnabled')} checked={readerSettings.ttsEnabled} onChange={() => setReaderSettings({...readerSettings, ttsEnabled: !readerSettings.ttsEnabled})} icon={<Mic size={16}/>} theme={theme} />
@@ -619,14 +855,150 @@ const Sidebar: React.FC<SidebarProps> = ({
                                     </div>
                                 ))}
                             </div>
+                            {trashedDicts.length > 0 && (
+                                <div className="mt-2">
+                                    <label className={`text-[10px] uppercase font-bold mb-1 block px-1 ${textSub}`}>{t(readerSettings.language, 'trash')}</label>
+                                    <div className="space-y-1 max-h-24 overflow-y-auto">
+                                        {trashedDicts.map(d => (
+                                            <div key={d.id} className="flex justify-between items-center text-xs px-2 py-1 rounded bg-black/5 opacity-60 hover:opacity-100 group">
+                                                <span className="truncate flex-1 line-through" title={d.name}>{d.name}</span>
+                                                <div className="flex items-center gap-1">
+                                                    <button onClick={() => handleRestoreDict(d.id)} className="p-1 hover:text-primary" title={t(readerSettings.language, 'restoreFromTrash')}><ArchiveRestore size={12}/></button>
+                                                    <button onClick={() => handleDeleteDictForever(d.id)} className="p-1 hover:text-red-500" title={t(readerSettings.language, 'deleteForever')}><Trash2 size={12}/></button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
 
-                        <button onClick={() => exportData(readerSettings)} className={`w-full py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-2 border ${itemBg} ${textSub} ${itemHover}`}>
-                            <Download size={14}/> {t(readerSettings.language, 'exportData')}
-                        </button>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => exportData(readerSettings)} className={`w-full py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-2 border ${itemBg} ${textSub} ${itemHover}`}>
+                                <Download size={14}/> {t(readerSettings.language, 'exportData')}
+                            </button>
+                            <label className={`w-full py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-2 border cursor-pointer ${itemBg} ${textSub} ${itemHover}`}>
+                                <Upload size={14}/> {t(readerSettings.language, 'importProgress')}
+                                <input type="file" accept=".json,application/json" className="hidden" onChange={handleProgressFile} />
+                            </label>
+                        </div>
+
+                        {progressImport && (
+                            <div className={`p-3 rounded-xl border space-y-2 ${inputBg}`}>
+                                <label className={`text-[10px] uppercase font-bold block ${textSub}`}>{t(readerSettings.language, 'conflictReport')}</label>
+                                <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                                    {progressImport.items.map((item, index) => (
+                                        <div key={`${item.entry.id}-${index}`} className={`text-xs px-2 py-1.5 rounded bg-black/5 ${item.book ? '' : 'opacity-50'}`}>
+                                            <label className="flex items-center gap-2 cursor-pointer">
+                                                <input type="checkbox" checked={item.included} disabled={!item.book} onChange={() => toggleProgressItem(index)} className="accent-primary" />
+                                                <span className={`truncate flex-1 ${textMain}`} title={item.entry.title}>{item.book?.title || item.entry.title}</span>
+                                                <span className={`text-[10px] shrink-0 ${item.conflicts.length > 0 ? 'text-yellow-500' : textSub}`}>
+                                                    {item.matchedBy === 'id' ? 'ID' : item.matchedBy === 'title' ? t(readerSettings.language, 'title') : t(readerSettings.language, 'notInLibrary')}
+                                                </span>
+                                            </label>
+                                            {item.conflicts.map(c => (
+                                                <p key={c.field} className={`text-[10px] pl-5 ${textSub}`}>
+                                                    {c.field}: {c.current} / {c.incoming} → <span className="text-primary">{c.result}</span>
+                                                </p>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                                {progressImport.data.settings && (
+                                    <label className={`flex items-center gap-2 text-xs cursor-pointer ${textSub}`}>
+                                        <input type="checkbox" checked={progressImport.applySettings} onChange={() => setProgressImport({ ...progressImport, applySettings: !progressImport.applySettings })} className="accent-primary" />
+                                        {t(readerSettings.language, 'applyImportedSettings')}
+                                    </label>
+                                )}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={confirmProgressImport} className="py-1.5 bg-primary text-white rounded-lg text-xs font-bold">{t(readerSettings.language, 'confirmImport')}</button>
+                                    <button onClick={() => setProgressImport(null)} className={`py-1.5 rounded-lg text-xs ${textSub} ${itemHover}`}>{t(readerSettings.language, 'cancel')}</button>
+                                </div>
+                            </div>
+                        )}
+
+                        <div>
+                            <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(readerSettings.language, 'backupRestore')}</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                <button onClick={() => handleCreateBackup('light')} disabled={backupBusy} className={`py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 border disabled:opacity-50 ${itemBg} ${textSub} ${itemHover}`} title={t(readerSettings.language, 'backupLightDesc')}>
+                                    <Download size={12}/> {t(readerSettings.language, 'backupLight')}
+                                </button>
+                                <button onClick={() => handleCreateBackup('full')} disabled={backupBusy} className={`py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 border disabled:opacity-50 ${itemBg} ${textSub} ${itemHover}`}>
+                                    <Download size={12}/> {t(readerSettings.language, 'backupFull')}
+                                </button>
+                                <label className={`py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-1 border cursor-pointer ${backupBusy ? 'opacity-50 cursor-wait' : ''} ${itemBg} ${textSub} ${itemHover}`}>
+                                    <Upload size={12}/> {t(readerSettings.language, 'restore')}
+                                    <input type="file" accept=".zip" className="hidden" onChange={handleRestoreFile} disabled={backupBusy} />
+                                </label>
+                            </div>
+                            {backupBusy && <p className="text-[10px] text-primary mt-2 text-center flex items-center justify-center gap-1"><Loader2 size={10} className="animate-spin"/> {backupStatus}</p>}
+
+                            {pendingRestore && !backupBusy && (
+                                <div className={`mt-2 p-3 rounded-xl border space-y-2 ${inputBg}`}>
+                                    <p className={`text-[10px] ${textSub}`}>{describeBackup(pendingRestore.manifest)}</p>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <button onClick={() => handleRestore('merge')} className="py-1.5 bg-primary text-white rounded-lg text-xs font-bold" title={t(readerSettings.language, 'restoreMergeDesc')}>{t(readerSettings.language, 'restoreMerge')}</button>
+                                        <button onClick={() => handleRestore('replace')} className="py-1.5 bg-red-500/80 hover:bg-red-600 text-white rounded-lg text-xs font-bold" title={t(readerSettings.language, 'restoreReplaceDesc')}>{t(readerSettings.language, 'restoreReplace')}</button>
+                                        <button onClick={() => setPendingRestore(null)} className={`py-1.5 rounded-lg text-xs ${textSub} ${itemHover}`}>{t(readerSettings.language, 'cancel')}</button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
                      </div>
                 </Section>
 
+                <Section title={t(readerSettings.language, 'storage')} icon={<HardDrive size={14}/>} theme={theme} defaultOpen={false}>
+                    <div className="space-y-3 mb-3">
+                        <div>
+                            <label className={`text-[10px] uppercase font-bold flex justify-between px-1 ${textSub}`}><span>{t(readerSettings.language, 'imageCacheSize')}</span> <span>{readerSettings.imageCacheSize || 256} MB</span></label>
+                            <input 
+                                type="range" min="64" max="1024" step="32"
+                                value={readerSettings.imageCacheSize || 256}
+                                onChange={(e) => setReaderSettings({...readerSettings, imageCacheSize: parseInt(e.target.value)})}
+                                className="w-full accent-primary h-1 rounded-full appearance-none bg-zinc-300 dark:bg-zinc-700"
+                            />
+                        </div>
+                        <div>
+                            <label className={`text-[10px] uppercase font-bold flex justify-between px-1 ${textSub}`}><span>{t(readerSettings.language, 'preloadPages')}</span> <span>{readerSettings.preloadPages ?? 3}</span></label>
+                            <input 
+                                type="range" min="0" max="10" step="1"
+                                value={readerSettings.preloadPages ?? 3}
+                                onChange={(e) => setReaderSettings({...readerSettings, preloadPages: parseInt(e.target.value)})}
+                                className="w-full accent-primary h-1 rounded-full appearance-none bg-zinc-300 dark:bg-zinc-700"
+                            />
+                        </div>
+                        <div>
+                            <label className={`text-[10px] uppercase font-bold mb-1 block px-1 ${textSub}`}>{t(readerSettings.language, 'storageBackend')}</label>
+                            <div className="flex gap-2">
+                                <select 
+                                    value={readerSettings.storageBackend || 'indexeddb'} 
+                                    onChange={(e) => setReaderSettings({...readerSettings, storageBackend: e.target.value as StorageBackend})}
+                                    className={`flex-1 rounded-xl px-3 py-2 text-sm outline-none border ${inputBg} ${textMain}`}
+                                >
+                                    <option value="indexeddb">IndexedDB</option>
+                                    <option value="opfs" disabled={!isStorageBackendAvailable('opfs')}>{t(readerSettings.language, 'storageOpfs')}</option>
+                                </select>
+                                <button onClick={handleMigrateStorage} disabled={!!migrateStatus} className={`px-3 rounded-xl text-xs font-bold flex items-center gap-1 border disabled:opacity-50 ${itemBg} ${textSub} ${itemHover}`} title={t(readerSettings.language, 'migrateStorage')}>
+                                    {migrateStatus ? <Loader2 size={12} className="animate-spin"/> : <ArrowRightLeft size={12}/>} {t(readerSettings.language, 'migrateStorage')}
+                                </button>
+                            </div>
+                            {migrateStatus && <p className="text-[10px] text-primary mt-1 text-center">{migrateStatus}</p>}
+                        </div>
+                        <div>
+                            <label className={`text-[10px] uppercase font-bold mb-1 block px-1 ${textSub}`}>{t(readerSettings.language, 'trashRetention')}</label>
+                            <select 
+                                value={readerSettings.trashRetentionDays ?? 30} 
+                                onChange={(e) => setReaderSettings({...readerSettings, trashRetentionDays: parseInt(e.target.value)})}
+                                className={`w-full rounded-xl px-3 py-2 text-sm outline-none border ${inputBg} ${textMain}`}
+                            >
+                                {[7, 14, 30, 90].map(days => <option key={days} value={days}>{days} {t(readerSettings.language, 'daysShort')}</option>)}
+                                <option value={0}>{t(readerSettings.language, 'trashKeepForever')}</option>
+                            </select>
+                        </div>
+                    </div>
+                    <StoragePanel settings={readerSettings} onDataChanged={onDataRestored} />
+                </Section>
+
                 {/* Anki Integration Moved Second */}
                 <Section title={t(readerSettings.language, 'anki')} icon={<Database size={14}/>} theme={theme} defaultOpen={false}>
                      {/* ... Anki settings ... */}
@@ -706,7 +1078,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                                 <div className="flex gap-2">
                                     <label className={`flex-1 flex items-center justify-center gap-2 p-2 rounded-lg cursor-pointer text-xs font-medium transition-colors border ${inputBg} ${itemHover} ${isLight ? 'text-zinc-700' : 'text-zinc-300'}`}>
                                         <Upload size={14}/> {t(readerSettings.language, 'uploadTrans')}
-                                        <input type="file" className="hidden" accept=".zip,.cbz" onChange={handleTransUpload} />
+                                        <input type="file" className="hidden" accept={BOOK_FILE_ACCEPT} onChange={handleTransUpload} />
                                     </label>
                                 </div>
                             </div>
@@ -728,7 +1100,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                          
                          {showOcr && (
                             <div className="animate-in slide-in-from-top-1">
-                                <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(readerSettings.language, 'ocrLanguage')}</label>
+                                {renderSettingLabel(t(readerSettings.language, 'ocrLanguage'), 'tesseractLanguage')}
                                 <select 
                                     value={readerSettings.tesseractLanguage} 
                                     onChange={(e) => setReaderSettings({...readerSettings, tesseractLanguage: e.target.value})}
@@ -748,13 +1120,44 @@ const Sidebar: React.FC<SidebarProps> = ({
                                 <button onClick={() => setReaderSettings({...readerSettings, theme: 'dark'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all flex items-center justify-center gap-1 ${readerSettings.theme === 'dark' ? 'bg-zinc-700 text-white shadow-md' : `${textSub} hover:text-primary`}`}><Moon size={12}/> {t(readerSettings.language, 'themeDark')}</button>
                             </div>
                         </div>
+
+                        <div>
+                            {renderSettingLabel(t(readerSettings.language, 'imageAdjustments'), 'imageAdjustments')}
+                            <div className={`p-2 rounded-xl space-y-2 ${itemBg}`}>
+                                {ADJUSTMENT_SLIDERS.map(([key, labelKey, min, max, step, neutral]) => (
+                                    <div key={key}>
+                                        <label className={`text-[10px] uppercase font-bold flex justify-between px-1 ${textSub}`}><span>{t(readerSettings.language, labelKey)}</span> <span>{(adjustments[key] as number | undefined) ?? neutral}</span></label>
+                                        <input 
+                                            type="range" min={min} max={max} step={step}
+                                            value={(adjustments[key] as number | undefined) ?? neutral}
+                                            onChange={(e) => updateAdjustments({ [key]: parseFloat(e.target.value) })}
+                                            className="w-full accent-primary h-1 rounded-full appearance-none bg-zinc-300 dark:bg-zinc-700"
+                                        />
+                                    </div>
+                                ))}
+                                <div className={`flex p-1 rounded-lg ${inputBg}`}>
+                                    {(['none', 'grayscale', 'sepia'] as const).map(tone => (
+                                        <button key={tone} onClick={() => updateAdjustments({ tone })} className={`flex-1 py-1 text-[10px] font-bold rounded-md transition-all ${(adjustments.tone || 'none') === tone ? 'bg-primary text-white shadow' : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, tone === 'none' ? 'toneNone' : tone === 'grayscale' ? 'toneGrayscale' : 'toneSepia')}</button>
+                                    ))}
+                                </div>
+                                <button onClick={() => setReaderSettings({ ...readerSettings, imageAdjustments: { invertInDark: adjustments.invertInDark, autoCrop: adjustments.autoCrop } })} className={`w-full py-1 text-[10px] font-bold rounded-lg flex items-center justify-center gap-1 ${textSub} ${itemHover}`}><RotateCcw size={10}/> {t(readerSettings.language, 'resetAdjustments')}</button>
+                            </div>
+                        </div>
+                        <Toggle label={t(readerSettings.language, 'invertInDark')} checked={!!adjustments.invertInDark} onChange={() => updateAdjustments({ invertInDark: !adjustments.invertInDark })} icon={<Contrast size={16}/>} theme={theme} />
+                        <Toggle label={t(readerSettings.language, 'autoCrop')} checked={!!adjustments.autoCrop} onChange={() => updateAdjustments({ autoCrop: !adjustments.autoCrop })} icon={<Crop size={16}/>} theme={theme} />
                     </div>
                 </Section>
 
                 <Section title={t(readerSettings.language, 'reading')} icon={<BookIcon size={14}/>} theme={theme} defaultOpen={false}>
                      <div className="space-y-4">
+                        {bookSettingCount > 0 && onUpdateBookSettings && (
+                            <div className={`flex items-center justify-between gap-2 p-2 rounded-xl text-xs bg-primary/10 text-primary`}>
+                                <span className="flex items-center gap-1.5"><BookMarked size={12}/> {t(readerSettings.language, 'bookSettingsActive')}: {bookSettingCount}</span>
+                                <button onClick={() => onUpdateBookSettings(undefined)} className="px-2 py-1 rounded-lg font-bold hover:bg-primary/20 flex items-center gap-1"><RotateCcw size={12}/> {t(readerSettings.language, 'resetToGlobal')}</button>
+                            </div>
+                        )}
                         <div>
-                            <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(readerSettings.language, 'viewMode')}</label>
+                            {renderSettingLabel(t(readerSettings.language, 'viewMode'), 'pageViewMode')}
                             <div className={`flex p-1 rounded-xl ${itemBg}`}>
                                 <button onClick={() => setReaderSettings({...readerSettings, pageViewMode: 'single'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all ${readerSettings.pageViewMode === 'single' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, 'singlePage')}</button>
                                 <button onClick={() => setReaderSettings({...readerSettings, pageViewMode: 'double'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all ${readerSettings.pageViewMode === 'double' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, 'doublePage')}</button>
@@ -763,18 +1166,51 @@ const Sidebar: React.FC<SidebarProps> = ({
                         </div>
 
                          <div>
-                            <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(readerSettings.language, 'direction')}</label>
+                            {renderSettingLabel(t(readerSettings.language, 'direction'), 'readingDirection')}
                             <div className={`flex p-1 rounded-xl ${itemBg}`}>
                                 <button onClick={() => setReaderSettings({...readerSettings, readingDirection: 'ltr'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all ${readerSettings.readingDirection === 'ltr' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, 'ltr')}</button>
                                 <button onClick={() => setReaderSettings({...readerSettings, readingDirection: 'rtl'})} className={`flex-1 py-1.5 text-xs font-bold rounded-lg transition-all ${readerSettings.readingDirection === 'rtl' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, 'rtl')}</button>
                             </div>
                         </div>
 
+                        {readerSettings.pageViewMode !== 'webtoon' && (
+                            <div>
+                                {renderSettingLabel(t(readerSettings.language, 'fitMode'), 'fitMode')}
+                                <div className={`grid grid-cols-5 gap-1 p-1 rounded-xl ${itemBg}`}>
+                                    {FIT_MODES.map(([mode, labelKey]) => (
+                                        <button key={mode} onClick={() => setReaderSettings({...readerSettings, fitMode: mode})} className={`py-1.5 text-[10px] font-bold rounded-lg transition-all ${(readerSettings.fitMode || 'page') === mode ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, labelKey)}</button>
+                                    ))}
+                                </div>
+                                {readerSettings.fitMode === 'custom' && (
+                                    <div className="mt-2 animate-in slide-in-from-top-1">
+                                        <div className="flex justify-between items-center">
+                                            {renderSettingLabel(t(readerSettings.language, 'customZoom'), 'customZoom')}
+                                            <span className={`text-[10px] font-bold mb-1.5 ${textSub}`}>{readerSettings.customZoom || 100}%</span>
+                                        </div>
+                                        <input 
+                                            type="range" min="50" max="400" step="10"
+                                            value={readerSettings.customZoom || 100}
+                                            onChange={(e) => setReaderSettings({...readerSettings, customZoom: parseInt(e.target.value)})}
+                                            className="w-full accent-primary h-1 rounded-full appearance-none bg-zinc-300 dark:bg-zinc-700"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {readerSettings.pageViewMode !== 'webtoon' && (
+                            <Toggle label={t(readerSettings.language, 'keepZoom')} checked={!!readerSettings.keepZoom} onChange={() => setReaderSettings({...readerSettings, keepZoom: !readerSettings.keepZoom})} icon={<ZoomIn size={16}/>} theme={theme} />
+                        )}
+
+                        {readerSettings.pageViewMode === 'double' && book && (
+                            <Toggle label={t(readerSettings.language, 'spreadOffset')} checked={spreadOffset} onChange={handleToggleSpreadOffset} icon={<Columns2 size={16}/>} theme={theme} />
+                        )}
+
                         <Toggle label={t(readerSettings.language, 'enableCompare')} checked={readerSettings.compareMode} onChange={() => setReaderSettings({...readerSettings, compareMode: !readerSettings.compareMode})} icon={<ArrowRightLeft size={16}/>} theme={theme} />
                         
                         {readerSettings.compareMode && readerSettings.pageViewMode === 'double' && (
                              <div>
-                                <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(readerSettings.language, 'comparisonLayout')}</label>
+                                {renderSettingLabel(t(readerSettings.language, 'comparisonLayout'), 'comparisonLayout')}
                                 <div className="grid grid-cols-1 gap-2">
                                     <button onClick={() => setReaderSettings({...readerSettings, comparisonLayout: 'standard'})} className={`w-full py-2 px-3 text-xs font-bold rounded-lg border text-left transition-all ${readerSettings.comparisonLayout === 'standard' ? 'bg-primary/20 border-primary text-primary' : `${itemBg} border-transparent ${textSub} ${itemHover}`}`}>
                                         {t(readerSettings.language, 'standardLayout')}
@@ -788,33 +1224,78 @@ const Sidebar: React.FC<SidebarProps> = ({
                      </div>
                 </Section>
                 
+                <Section title={t(readerSettings.language, 'tapZones')} icon={<Hand size={14}/>} theme={theme} defaultOpen={false}>
+                    <div className="space-y-3">
+                        <div className={`grid grid-cols-4 gap-1 p-1 rounded-xl ${itemBg}`}>
+                            {TAP_PRESET_LABELS.map(([preset, labelKey]) => (
+                                <button key={preset} onClick={() => setReaderSettings({...readerSettings, tapZones: TAP_ZONE_PRESETS[preset]})} className={`py-1.5 text-[10px] font-bold rounded-lg transition-all ${tapZonePreset === preset ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>{t(readerSettings.language, labelKey)}</button>
+                            ))}
+                            <span className={`py-1.5 text-[10px] font-bold rounded-lg text-center ${tapZonePreset === 'custom' ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} opacity-50`}`}>{t(readerSettings.language, 'tapPresetCustom')}</span>
+                        </div>
+                        <div className={`grid grid-cols-3 gap-1 aspect-[3/4] p-1 rounded-xl border ${isLight ? 'border-zinc-200' : 'border-white/10'}`}>
+                            {tapZones.map((action, i) => (
+                                <button key={i} onClick={() => cycleTapZone(i)} className={`rounded-lg text-[10px] font-bold transition-all ${action === 'none' ? `${itemBg} ${textSub} ${itemHover}` : action === 'next' || action === 'prev' ? 'bg-primary/20 text-primary hover:bg-primary/30' : 'bg-amber-500/20 text-amber-500 hover:bg-amber-500/30'}`}>
+                                    {t(readerSettings.language, TAP_ACTION_LABELS[action])}
+                                </button>
+                            ))}
+                        </div>
+                        <p className={`text-[10px] ${textSub}`}>{t(readerSettings.language, 'tapZonesHint')}</p>
+                        <Toggle label={t(readerSettings.language, 'swipeToTurn')} checked={readerSettings.swipeToTurn !== false} onChange={() => setReaderSettings({...readerSettings, swipeToTurn: readerSettings.swipeToTurn === false})} icon={<MoveHorizontal size={16}/>} theme={theme} />
+                    </div>
+                </Section>
+
                 <Section title={t(readerSettings.language, 'shortcuts')} icon={<Keyboard size={14}/>} theme={theme} defaultOpen={false}>
                     <div className="space-y-3">
-                        {Object.keys(localKeybindings).map((k) => (
-                            <div key={k} className="flex items-center justify-between">
-                                <span className={`text-xs capitalize ${textSub}`}>{t(readerSettings.language, k as any) || k}</span>
-                                {recordingKey === k ? (
-                                    <div className="flex items-center gap-1">
-                                        <span className={`text-xs text-red-500 animate-pulse`}>{t(readerSettings.language, 'listening')}</span>
-                                        <button onClick={(e) => { e.stopPropagation(); setRecordingKey(null); }} className="p-1 rounded bg-zinc-200 dark:bg-zinc-700"><X size={10}/></button>
+                        <div className={`grid grid-cols-2 gap-1 p-1 rounded-xl ${itemBg}`}>
+                            {(['keyboard', 'gamepad'] as const).map(profile => (
+                                <button key={profile} onClick={() => { setBindingProfile(profile); setRecordingKey(null); }} className={`py-1.5 text-[10px] font-bold rounded-lg transition-all flex items-center justify-center gap-1 ${bindingProfile === profile ? (isLight ? 'bg-white text-black shadow-md' : 'bg-zinc-700 text-white shadow-md') : `${textSub} ${itemHover}`}`}>
+                                    {profile === 'keyboard' ? <Keyboard size={12}/> : <Gamepad2 size={12}/>} {t(readerSettings.language, profile === 'keyboard' ? 'keyboardProfile' : 'gamepadProfile')}
+                                </button>
+                            ))}
+                        </div>
+                        {KEY_ACTIONS.map((action) => {
+                            const inputs = localBindings[action] || [];
+                            const conflicting = inputs.flatMap(input => (bindingConflicts.get(input) || []).filter(other => other !== action));
+                            return (
+                                <div key={action}>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className={`text-xs capitalize ${textSub}`}>{t(readerSettings.language, action)}</span>
+                                        {recordingKey === action ? (
+                                            <div className="flex items-center gap-1">
+                                                <span className={`text-xs text-red-500 animate-pulse`}>{t(readerSettings.language, bindingProfile === 'keyboard' ? 'listening' : 'pressGamepadButton')}</span>
+                                                <button onClick={(e) => { e.stopPropagation(); setRecordingKey(null); }} className="p-1 rounded bg-zinc-200 dark:bg-zinc-700"><X size={10}/></button>
+                                            </div>
+                                        ) : (
+                                            <div className="flex items-center gap-1">
+                                                <button 
+                                                    onClick={() => setRecordingKey(action)} 
+                                                    className={`px-3 py-1.5 rounded-lg text-xs font-mono border ${itemBg} ${textMain} ${itemHover} ${conflicting.length > 0 ? 'border-red-500 text-red-500' : ''}`}
+                                                >
+                                                    {inputs.map(formatBinding).join(', ') || t(readerSettings.language, 'clickToBind')}
+                                                </button>
+                                                {inputs.length > 0 && (
+                                                    <button onClick={() => setLocalBindings(prev => ({ ...prev, [action]: [] }))} className={`p-1 rounded ${textSub} ${itemHover}`} title={t(readerSettings.language, 'clearBinding')}><X size={10}/></button>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
-                                ) : (
-                                    <button 
-                                        onClick={() => setRecordingKey(k as any)} 
-                                        className={`px-3 py-1.5 rounded-lg text-xs font-mono border ${itemBg} ${textMain} ${itemHover}`}
-                                    >
-                                        {localKeybindings[k as keyof Keybindings].map(formatKey).join(', ') || t(readerSettings.language, 'clickToBind')}
-                                    </button>
-                                )}
-                            </div>
-                        ))}
+                                    {conflicting.length > 0 && (
+                                        <p className="text-[10px] text-red-500 text-right mt-0.5">{t(readerSettings.language, 'bindingConflict')}{conflicting.map(other => t(readerSettings.language, other)).join(', ')}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {hasBindingConflicts && (
+                            <p className="text-[10px] text-red-500 text-center">{t(readerSettings.language, 'resolveConflicts')}</p>
+                        )}
                         <button 
                             onClick={handleSaveKeybindings} 
-                            className={`w-full mt-2 py-2 text-xs font-bold flex items-center justify-center gap-2 rounded-lg bg-primary text-white hover:bg-blue-600 transition-colors shadow-sm`}
+                            disabled={hasBindingConflicts}
+                            className={`w-full mt-2 py-2 text-xs font-bold flex items-center justify-center gap-2 rounded-lg bg-primary text-white hover:bg-blue-600 disabled:opacity-50 transition-colors shadow-sm`}
                         >
                             <Save size={12}/> {t(readerSettings.language, 'save')}
                         </button>
-                        <button onClick={() => setReaderSettings({...readerSettings, keybindings: { nextPage: ['ArrowRight', ' '], prevPage: ['ArrowLeft'], toggleMenu: ['m'], fullscreen: ['f'] }})} className={`w-full mt-1 py-1.5 text-[10px] flex items-center justify-center gap-1 ${textSub} ${itemHover}`}>
+                        <button onClick={handleResetKeybindings} className={`w-full mt-1 py-1.5 text-[10px] flex items-center justify-center gap-1 ${textSub} ${itemHover}`}>
                             <RotateCcw size={10}/> {t(readerSettings.language, 'resetKeys')}
                         </button>
                     </div>
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { ReaderSettings, LocalDictionary, LibraryFolder } from '../../types';
+import { HardDrive, RefreshCw, Trash2, Lock, Loader2, ChevronDown, ChevronRight, FolderSync } from 'lucide-react';
+import { getAllBooks, getDictionaries, getDictionaryDataSizes, removeBookAttachment, BookAttachment, getLibraryFolder, deleteLibraryFolder } from '../../services/db';
+import { getStorageEstimate, requestPersistentStorage, getBookSizes, formatBytes, StorageEstimateInfo, BookSizeInfo } from '../../services/storage';
+import { t } from '../../services/i18n';
+
+interface StoragePanelProps {
+    settings: ReaderSettings;
+    onDataChanged?: () => void;
+}
+
+const ATTACHMENTS: { field: BookAttachment; label: string }[] = [
+    { field: 'translatedFile', label: 'TR' },
+    { field: 'mokuroFile', label: 'OCR' },
+    { field: 'coverBlob', label: 'Cover' },
+    { field: 'pages', label: 'Pages' },
+];
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ settings, onDataChanged }) => {
+    const [estimate, setEstimate] = useState<StorageEstimateInfo | null>(null);
+    const [bookSizes, setBookSizes] = useState<BookSizeInfo[] | null>(null);
+    const [dictSizes, setDictSizes] = useState<{ dict: LocalDictionary; size: number }[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [expandedBook, setExpandedBook] = useState<string | null>(null);
+    const [libraryFolder, setLibraryFolder] = useState<LibraryFolder | null>(null);
+
+    const isLight = settings.theme === 'light';
+    const textMain = isLight ? 'text-zinc-800' : 'text-zinc-100';
+    const textSub = isLight ? 'text-zinc-500' : 'text-zinc-400';
+    const itemBg = isLight ? 'bg-zinc-100' : 'bg-surfaceLight';
+    const itemHover = isLight ? 'hover:bg-zinc-200' : 'hover:bg-white/5';
+
+    // Reading every blob size and dictionary entry is slow, so analysis only runs on request
+    const analyze = async () => {
+        setLoading(true);
+        try {
+            setEstimate(await getStorageEstimate());
+            setBookSizes(getBookSizes(await getAllBooks()));
+            setLibraryFolder((await getLibraryFolder()) || null);
+            const [dicts, sizes] = await Promise.all([getDictionaries(), getDictionaryDataSizes()]);
+            setDictSizes(dicts.map(dict => ({ dict, size: sizes[dict.id] || 0 })).sort((a, b) => b.size - a.size));
+        } catch (e) {
+            console.error("Storage analysis failed", e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handlePersist = async () => {
+        const granted = await requestPersistentStorage();
+        if (!granted) alert(t(settings.language, 'persistDenied'));
+        setEstimate(await getStorageEstimate());
+    };
+
+    const handleRemoveAttachment = async (bookId: string, field: BookAttachment) => {
+        if (!confirm(t(settings.language, 'removeAttachmentConfirm'))) return;
+        await removeBookAttachment(bookId, field);
+        onDataChanged?.();
+        await analyze();
+    };
+
+    // Linked books keep their file handles, only the folder stops being scanned
+    const handleRemoveLibraryFolder = async () => {
+        if (!confirm(t(settings.language, 'removeLibraryFolder') + '?')) return;
+        await deleteLibraryFolder();
+        setLibraryFolder(null);
+    };
+
+    const usagePct = estimate && estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : 0;
+
+    return (
+        <div className="space-y-3">
+            <button onClick={analyze} disabled={loading} className={`w-full py-2 rounded-xl text-xs font-bold flex items-center justify-center gap-2 border disabled:opacity-50 ${itemBg} ${textSub} ${itemHover}`}>
+                {loading ? <Loader2 size={14} className="animate-spin"/> : <RefreshCw size={14}/>} {t(settings.language, 'analyzeStorage')}
+            </button>
+
+            {estimate && (
+                <div className="space-y-1.5 px-1">
+                    <div className={`flex justify-between text-[10px] font-bold uppercase ${textSub}`}>
+                        <span className="flex items-center gap-1"><HardDrive size={10}/> {formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}</span>
+                        <span>{usagePct.toFixed(1)}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full overflow-hidden bg-zinc-500/30">
+                        <div className={`h-full ${usagePct > 80 ? 'bg-red-500' : 'bg-primary'}`} style={{ width: `${Math.min(100, usagePct)}%` }}></div>
+                    </div>
+                    {estimate.persisted ? (
+                        <p className="text-[10px] text-green-500 flex items-center gap-1"><Lock size={10}/> {t(settings.language, 'storagePersisted')}</p>
+                    ) : (
+                        <button onClick={handlePersist} className="text-[10px] text-primary hover:underline flex items-center gap-1"><Lock size={10}/> {t(settings.language, 'requestPersist')}</button>
+                    )}
+                </div>
+            )}
+
+            {libraryFolder && (
+                <div className={`flex items-center gap-2 px-2 py-1.5 rounded text-xs bg-black/5 ${textMain}`}>
+                    <FolderSync size={12} className={textSub}/>
+                    <span className="truncate flex-1" title={libraryFolder.name}>{t(settings.language, 'libraryFolder')}: {libraryFolder.name}</span>
+                    <button onClick={handleRemoveLibraryFolder} className="text-red-400 hover:text-red-500" title={t(settings.language, 'removeLibraryFolder')}><Trash2 size={12}/></button>
+                </div>
+            )}
+
+            {bookSizes && (
+                <div>
+                    <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(settings.language, 'books')}</label>
+                    <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                        {bookSizes.map(info => (
+                            <div key={info.book.id} className="text-xs rounded bg-black/5">
+                                <button onClick={() => setExpandedBook(expandedBook === info.book.id ? null : info.book.id)} className={`w-full flex items-center gap-1 px-2 py-1 ${itemHover}`}>
+                                    {expandedBook === info.book.id ? <ChevronDown size={12}/> : <ChevronRight size={12}/>}
+                                    <span className={`truncate flex-1 text-left ${textMain}`} title={info.book.title}>{info.book.title}</span>
+                                    <span className={`font-mono text-[10px] ${textSub}`}>{formatBytes(info.total)}</span>
+                                </button>
+                                {expandedBook === info.book.id && (
+                                    <div className="pl-6 pr-2 pb-1 space-y-0.5">
+                                        <div className={`flex justify-between text-[10px] ${textSub}`}>
+                                            <span>{t(settings.language, 'fileSize')}</span>
+                                            <span className="font-mono">{formatBytes(info.file)}</span>
+                                        </div>
+                                        {ATTACHMENTS.filter(a => info[a.field] > 0).map(a => (
+                                            <div key={a.field} className={`flex justify-between items-center text-[10px] ${textSub}`}>
+                                                <span>{a.label}</span>
+                                                <span className="flex items-center gap-1 font-mono">
+                                                    {formatBytes(info[a.field])}
+                                                    <button onClick={() => handleRemoveAttachment(info.book.id, a.field)} className="p-0.5 hover:text-red-500" title={t(settings.language, 'removeAttachment')}><Trash2 size={10}/></button>
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {bookSizes && dictSizes.length > 0 && (
+                <div>
+                    <label className={`text-[10px] uppercase font-bold mb-1.5 block px-1 ${textSub}`}>{t(settings.language, 'dictionaries')}</label>
+                    <div className="space-y-1">
+                        {dictSizes.map(({ dict, size }) => (
+                            <div key={dict.id} className="flex justify-between items-center text-xs px-2 py-1 rounded bg-black/5">
+                                <span className={`truncate flex-1 ${textMain}`} title={dict.name}>{dict.name}</span>
+                                <span className={`font-mono text-[10px] ${textSub}`}>~{formatBytes(size)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StoragePanel;
@@ -0,0 +1,252 @@
+import JSZip from 'jszip';
+import { ArchiveReader, libarchiveWasm, LibarchiveWasm } from 'libarchive-wasm';
+import libarchiveWasmUrl from 'libarchive-wasm/dist/libarchive.wasm?url';
+import { isComicInfoFileName } from './comicinfo';
+
+// Archive decoding without DOM access, shared by archiveWorker.ts and the in-thread fallback in parser.ts
+
+export type ArchiveFormat = 'zip' | 'rar' | '7z' | 'pdf';
+
+// Formats decoded here; PDF stays with pdf.js, which needs a canvas to rasterize
+export type DecodableFormat = Exclude<ArchiveFormat, 'pdf'>;
+
+// Magic bytes at offset 0 for each supported container
+const SIGNATURES: { format: ArchiveFormat; bytes: number[] }[] = [
+    { format: 'zip', bytes: [0x50, 0x4B, 0x03, 0x04] },
+    { format: 'zip', bytes: [0x50, 0x4B, 0x05, 0x06] }, // empty archive
+    { format: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1A, 0x07] }, // "Rar!" v4 and v5
+    { format: '7z', bytes: [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C] },
+    { format: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46] }, // "%PDF"
+];
+
+export const detectArchiveFormat = async (file: Blob): Promise<ArchiveFormat | null> => {
+    const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+    const match = SIGNATURES.find(sig => sig.bytes.every((b, i) => header[i] === b));
+    return match ? match.format : null;
+};
+
+export const isImageFileName = (name: string) =>
+    /\.(jpg|jpeg|png|webp|gif)$/i.test(name) &&
+    !name.includes('__MACOSX') &&
+    !name.split('/').pop()?.startsWith('.');
+
+// Natural order, so "page2" sorts before "page10"
+export const compareFileNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export const getSortedImages = (names: string[]) => {
+    return names
+        .filter(isImageFileName)
+        .sort(compareFileNames);
+};
+
+export const getMimeType = (name: string) => {
+    const ext = name.split('.').pop()?.toLowerCase();
+    if (ext === 'png') return 'image/png';
+    if (ext === 'webp') return 'image/webp';
+    if (ext === 'gif') return 'image/gif';
+    return 'image/jpeg';
+};
+
+// Opened archive; ComicInfo.xml is returned as text because DOMParser is not available in workers
+export interface ArchiveHandle {
+    imageFiles: string[];
+    comicInfoXml: string | null;
+    // Returns a buffer the caller owns, so it can be transferred
+    read: (name: string) => Promise<ArrayBuffer | null>;
+    close: () => void;
+}
+
+// --- Zip Backend ---
+
+// Where an entry's data sits in the file, from the central directory
+interface ZipEntry {
+    method: number; // 0 stored, 8 deflate
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// End of central directory record plus the longest possible comment
+const EOCD_SEARCH_SIZE = 22 + 0xFFFF;
+
+const utf8 = new TextDecoder();
+
+const readRange = async (file: Blob, start: number, end: number) => new DataView(await file.slice(start, end).arrayBuffer());
+
+const canInflateRaw = () => {
+    try {
+        new DecompressionStream('deflate-raw');
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Names are decoded like JSZip does, so stored page names and manifests stay valid
+const readEntryName = (dir: DataView, start: number, nameLength: number, extraLength: number, flags: number) => {
+    const bytes = (from: number, length: number) => new Uint8Array(dir.buffer, dir.byteOffset + from, length);
+    if (!(flags & 0x800)) {
+        // Unicode path extra field: UTF-8 name of an entry stored in a legacy encoding
+        const end = start + nameLength + extraLength;
+        for (let p = start + nameLength; p + 4 <= end; p += 4 + dir.getUint16(p + 2, true)) {
+            const size = dir.getUint16(p + 2, true);
+            if (dir.getUint16(p, true) === 0x7075 && size > 5) return utf8.decode(bytes(p + 9, size - 5));
+        }
+    }
+    return utf8.decode(bytes(start, nameLength));
+};
+
+// Null for archives this reader does not handle (zip64, encryption, other methods), which go to JSZip
+const readZipDirectory = async (file: Blob): Promise<Map<string, ZipEntry> | null> => {
+    const tailStart = Math.max(0, file.size - EOCD_SEARCH_SIZE);
+    const tail = await readRange(file, tailStart, file.size);
+    let eocd = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) return null;
+    const count = tail.getUint16(eocd + 10, true);
+    const size = tail.getUint32(eocd + 12, true);
+    const offset = tail.getUint32(eocd + 16, true);
+    if (count === 0xFFFF || size === 0xFFFFFFFF || offset === 0xFFFFFFFF || offset + size > file.size) return null;
+
+    const dir = await readRange(file, offset, offset + size);
+    const entries = new Map<string, ZipEntry>();
+    let p = 0;
+    for (let i = 0; i < count; i++) {
+        if (p + 46 > dir.byteLength || dir.getUint32(p, true) !== CENTRAL_SIGNATURE) return null;
+        const flags = dir.getUint16(p + 8, true);
+        const method = dir.getUint16(p + 10, true);
+        const compressedSize = dir.getUint32(p + 20, true);
+        const nameLength = dir.getUint16(p + 28, true);
+        const extraLength = dir.getUint16(p + 30, true);
+        const commentLength = dir.getUint16(p + 32, true);
+        const localHeaderOffset = dir.getUint32(p + 42, true);
+        if ((flags & 1) || (method !== 0 && method !== 8) || compressedSize === 0xFFFFFFFF || localHeaderOffset === 0xFFFFFFFF) return null;
+        const name = readEntryName(dir, p + 46, nameLength, extraLength, flags);
+        if (!name.endsWith('/')) entries.set(name, { method, compressedSize, localHeaderOffset });
+        p += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+const readZipEntry = async (file: Blob, entry: ZipEntry): Promise<ArrayBuffer> => {
+    const header = await readRange(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error("Invalid zip entry");
+    // The local name and extra field can differ in length from the central directory copy
+    const start = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = file.slice(start, start + entry.compressedSize);
+    if (entry.method === 0) return data.arrayBuffer();
+    return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).arrayBuffer();
+};
+
+/**
+ * Only the central directory is read on open, each page is sliced out of the file when it is
+ * requested. Archives in OPFS or IndexedDB are disk-backed blobs, so they are never loaded whole.
+ */
+const openZip = async (file: Blob): Promise<ArchiveHandle> => {
+    const entries: Map<string, ZipEntry> | null = canInflateRaw() ? await readZipDirectory(file).catch(() => null) : null;
+    if (!entries) return openZipInMemory(file);
+    const names = Array.from(entries.keys());
+    const infoName = names.find(isComicInfoFileName);
+
+    return {
+        imageFiles: getSortedImages(names),
+        comicInfoXml: infoName ? utf8.decode(await readZipEntry(file, entries.get(infoName)!)) : null,
+        read: async (name) => {
+            const entry = entries.get(name);
+            return entry ? readZipEntry(file, entry) : null;
+        },
+        close: () => entries.clear()
+    };
+};
+
+// JSZip reads the whole archive into memory
+const openZipInMemory = async (file: Blob): Promise<ArchiveHandle> => {
+    const zip = await new JSZip().loadAsync(file);
+    const names = Object.keys(zip.files).filter(key => !zip.files[key].dir);
+    const infoName = names.find(isComicInfoFileName);
+
+    return {
+        imageFiles: getSortedImages(names),
+        comicInfoXml: infoName ? await zip.files[infoName].async('string') : null,
+        read: async (name) => {
+            const entry = zip.files[name];
+            return entry ? entry.async('arraybuffer') : null;
+        },
+        close: () => {}
+    };
+};
+
+// --- RAR / 7z Backend (libarchive) ---
+
+let libarchivePromise: Promise<LibarchiveWasm> | null = null;
+
+const getLibarchive = () => {
+    if (!libarchivePromise) {
+        libarchivePromise = libarchiveWasm({ locateFile: () => libarchiveWasmUrl }).catch(e => {
+            libarchivePromise = null;
+            throw e;
+        });
+    }
+    return libarchivePromise;
+};
+
+// libarchive only reads sequentially from a buffer, so RAR and 7z archives are loaded whole
+// and their image entries extracted once on open
+const openLibarchive = async (file: Blob): Promise<ArchiveHandle> => {
+    const mod = await getLibarchive();
+    const reader = new ArchiveReader(mod, new Int8Array(await file.arrayBuffer()));
+    const entries = new Map<string, Uint8Array>();
+    let comicInfoXml: string | null = null;
+    try {
+        for (const entry of reader.entries()) {
+            const name = entry.getPathname();
+            if (entry.getFiletype() === 'File' && isComicInfoFileName(name)) {
+                const data = entry.readData();
+                if (data) comicInfoXml = new TextDecoder().decode(data);
+                continue;
+            }
+            if (entry.getFiletype() !== 'File' || !isImageFileName(name)) {
+                entry.skipData();
+                continue;
+            }
+            const data = entry.readData();
+            // Copy out of the wasm heap before the reader is freed
+            if (data) entries.set(name, new Uint8Array(data));
+        }
+    } finally {
+        reader.free();
+    }
+
+    return {
+        imageFiles: getSortedImages(Array.from(entries.keys())),
+        comicInfoXml,
+        // Copied so transferring the result does not detach the kept entry
+        read: async (name) => entries.get(name)?.slice().buffer || null,
+        close: () => entries.clear()
+    };
+};
+
+export const openArchive = (file: Blob, format: DecodableFormat): Promise<ArchiveHandle> =>
+    format === 'zip' ? openZip(file) : openLibarchive(file);
+
+// --- Worker message protocol ---
+
+// 'open' request ids double as the archive id for later reads
+export type ArchiveRequest =
+    | { type: 'open'; id: number; file: Blob; format: DecodableFormat }
+    | { type: 'read'; id: number; archiveId: number; name: string }
+    | { type: 'cancel'; id: number }
+    | { type: 'close'; archiveId: number };
+
+export type ArchiveResponse =
+    | { type: 'opened'; id: number; imageFiles: string[]; comicInfoXml: string | null }
+    | { type: 'buffer'; id: number; buffer: ArrayBuffer | null; mimeType: string }
+    | { type: 'cancelled'; id: number }
+    | { type: 'error'; id: number; message: string };
@@ -0,0 +1,68 @@
+import { openArchive, getMimeType, ArchiveHandle, ArchiveRequest, ArchiveResponse } from './archive';
+
+// Decompresses archives off the main thread. Reads run one at a time so that
+// cancelled look-ahead requests are dropped from the queue before any work is done.
+
+type QueuedRequest = Extract<ArchiveRequest, { type: 'open' | 'read' }>;
+
+const archives = new Map<number, ArchiveHandle>();
+const queue: QueuedRequest[] = [];
+const cancelled = new Set<number>();
+let runningId: number | null = null;
+
+const post = (msg: ArchiveResponse, transfer: Transferable[] = []) => {
+    self.postMessage(msg, { transfer });
+};
+
+const handle = async (req: QueuedRequest) => {
+    if (req.type === 'open') {
+        const archive = await openArchive(req.file, req.format);
+        archives.set(req.id, archive);
+        post({ type: 'opened', id: req.id, imageFiles: archive.imageFiles, comicInfoXml: archive.comicInfoXml });
+    } else {
+        const archive = archives.get(req.archiveId);
+        const buffer = archive ? await archive.read(req.name) : null;
+        if (cancelled.has(req.id)) {
+            post({ type: 'cancelled', id: req.id });
+        } else {
+            post({ type: 'buffer', id: req.id, buffer, mimeType: getMimeType(req.name) }, buffer ? [buffer] : []);
+        }
+    }
+};
+
+const pump = async () => {
+    if (runningId !== null) return;
+    while (queue.length > 0) {
+        const req = queue.shift()!;
+        runningId = req.id;
+        try {
+            await handle(req);
+        } catch (e) {
+            post({ type: 'error', id: req.id, message: e instanceof Error ? e.message : String(e) });
+        } finally {
+            cancelled.delete(req.id);
+            runningId = null;
+        }
+    }
+};
+
+self.onmessage = (e: MessageEvent<ArchiveRequest>) => {
+    const req = e.data;
+    if (req.type === 'cancel') {
+        const queued = queue.findIndex(q => q.id === req.id);
+        if (queued >= 0) {
+            queue.splice(queued, 1);
+            post({ type: 'cancelled', id: req.id });
+        } else if (runningId === req.id) {
+            cancelled.add(req.id);
+        }
+        return;
+    }
+    if (req.type === 'close') {
+        archives.get(req.archiveId)?.close();
+        archives.delete(req.archiveId);
+        return;
+    }
+    queue.push(req);
+    pump();
+};
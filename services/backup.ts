@@ -0,0 +1,327 @@
+import JSZip from 'jszip';
+import { Book, Bookmark, LocalDictionary, ReaderSettings } from '../types';
+import { getBookArchive } from './fileAccess';
+import { getAllBooks, getBook, getBookWithFiles, addBook, getDictionaries, getTrashedDictionaries, getDictionaryEntries, saveDictionary, deleteDictionary, deleteBookPages } from './db';
+
+const BACKUP_FORMAT = 'mokuro-reader-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+// Light backups keep OCR and covers but skip the archives and dictionary data
+export type BackupMode = 'light' | 'full';
+export type RestoreMode = 'merge' | 'replace';
+
+type BlobField = 'file' | 'translatedFile' | 'mokuroFile' | 'coverBlob';
+const BLOB_FIELDS: BlobField[] = ['file', 'translatedFile', 'mokuroFile', 'coverBlob'];
+const LIGHT_BLOB_FIELDS: BlobField[] = ['mokuroFile', 'coverBlob'];
+
+// File handles cannot be serialized, linked archives are exported as regular files in full mode.
+// The storage backend is local to this browser, restored blobs go to the active one.
+type BookRecord = Omit<Book, BlobField | 'coverUrl' | 'fileSizes' | 'fileHandle' | 'storage'> & {
+    blobs: Partial<Record<BlobField, string>>; // Paths inside the backup zip
+};
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    mode: BackupMode;
+    createdAt: number;
+    settings: ReaderSettings;
+    books: BookRecord[];
+    dictionaries: { meta: LocalDictionary; path: string }[];
+}
+
+export interface RestoreResult {
+    added: number;
+    updated: number;
+    skipped: number; // New books without an archive in a light backup
+    dictionaries: number;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+export const createBackup = async (settings: ReaderSettings, mode: BackupMode, onProgress: (msg: string) => void): Promise<void> => {
+    const zip = new JSZip();
+    const books = await getAllBooks();
+    const fields = mode === 'full' ? BLOB_FIELDS : LIGHT_BLOB_FIELDS;
+
+    const records: BookRecord[] = [];
+    for (let i = 0; i < books.length; i++) {
+        onProgress(`Books ${i + 1}/${books.length}`);
+        // Archive blobs live in their own store, only read them when they are exported
+        const book = mode === 'full' ? (await getBookWithFiles(books[i].id)) || books[i] : books[i];
+        if (mode === 'full' && book.fileHandle) {
+            book.file = await getBookArchive(book).catch(() => undefined);
+        }
+        const { file, translatedFile, mokuroFile, coverBlob, coverUrl, fileSizes, fileHandle, storage, ...meta } = book;
+        const blobs: BookRecord['blobs'] = {};
+        fields.forEach(field => {
+            const blob = book[field];
+            if (!blob) return;
+            const path = `books/${book.id}/${field}`;
+            zip.file(path, blob);
+            blobs[field] = path;
+        });
+        records.push({ ...meta, blobs });
+    }
+
+    const dictionaries: BackupManifest['dictionaries'] = [];
+    if (mode === 'full') {
+        const dicts = await getDictionaries();
+        for (let i = 0; i < dicts.length; i++) {
+            onProgress(`Dictionaries ${i + 1}/${dicts.length}`);
+            const path = `dictionaries/${dicts[i].id}.json`;
+            zip.file(path, JSON.stringify(await getDictionaryEntries(dicts[i].id)));
+            dictionaries.push({ meta: dicts[i], path });
+        }
+    }
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        mode,
+        createdAt: Date.now(),
+        settings,
+        books: records,
+        dictionaries
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+    onProgress('Packing...');
+    const blob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(blob, `mokuro_reader_${mode}_backup_${new Date().toISOString().slice(0, 10)}.zip`);
+};
+
+export const readBackup = async (file: Blob): Promise<{ zip: JSZip; manifest: BackupManifest }> => {
+    const zip = await new JSZip().loadAsync(file);
+    const entry = zip.file(MANIFEST_FILE);
+    if (!entry) throw new Error("Not a backup archive (manifest.json missing)");
+    const manifest = JSON.parse(await entry.async('string')) as BackupManifest;
+    if (manifest.format !== BACKUP_FORMAT) throw new Error("Unknown backup format");
+    if (manifest.version > BACKUP_VERSION) throw new Error("Backup was created by a newer version");
+    return { zip, manifest };
+};
+
+const mergeById = <T extends { id: string }>(current: T[] = [], incoming: T[] = []) => {
+    const ids = new Set(current.map(item => item.id));
+    return [...current, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+// Merge keeps local values and only fills in what the backup adds; replace lets the backup win.
+// Blobs missing from a light backup are kept either way.
+const combineBooks = (existing: Book, incoming: Partial<Book>, mode: RestoreMode): Book => {
+    if (mode === 'replace') {
+        const combined = { ...existing, ...incoming } as Book;
+        if (incoming.file) {
+            // The page manifest of the backup belongs to its archive, which also replaces a linked file
+            combined.pageManifest = incoming.pageManifest;
+            delete combined.fileHandle;
+        }
+        return combined;
+    }
+    const keepIncomingStats = (incoming.stats?.totalTime || 0) > (existing.stats?.totalTime || 0);
+    return {
+        ...incoming,
+        ...existing,
+        // A linked book stays linked, its OCR and translated files can still be filled in
+        file: existing.file || (existing.fileHandle ? undefined : incoming.file),
+        translatedFile: existing.translatedFile || incoming.translatedFile,
+        mokuroFile: existing.mokuroFile || incoming.mokuroFile,
+        progress: Math.max(existing.progress || 0, incoming.progress || 0),
+        bookmarks: mergeById(existing.bookmarks, incoming.bookmarks),
+        stats: keepIncomingStats ? incoming.stats : existing.stats
+    } as Book;
+};
+
+export const restoreBackup = async (
+    zip: JSZip,
+    manifest: BackupManifest,
+    mode: RestoreMode,
+    onProgress: (msg: string) => void
+): Promise<RestoreResult> => {
+    const result: RestoreResult = { added: 0, updated: 0, skipped: 0, dictionaries: 0 };
+
+    for (let i = 0; i < manifest.books.length; i++) {
+        // Pages unpacked one by one are not part of backups
+        const { blobs, unpackedPages, unpackedComicInfo, ...meta } = manifest.books[i];
+        onProgress(`Books ${i + 1}/${manifest.books.length}`);
+
+        const incoming: Partial<Book> = { ...meta };
+        for (const field of BLOB_FIELDS) {
+            const path = blobs[field];
+            const entry = path ? zip.file(path) : null;
+            if (entry) incoming[field] = await entry.async('blob');
+        }
+
+        const existing = await getBookWithFiles(meta.id);
+        if (existing) {
+            const combined = combineBooks(existing, incoming, mode);
+            // Pages unpacked from the archive the backup replaced would show the wrong images
+            if (combined.file !== existing.file && existing.unpackedPages) {
+                await deleteBookPages(existing.id);
+                delete combined.unpackedPages;
+                delete combined.unpackedComicInfo;
+                if (combined.fileSizes) combined.fileSizes = { ...combined.fileSizes, pages: undefined };
+            }
+            await addBook(combined);
+            result.updated++;
+        } else if (incoming.file) {
+            await addBook({ ...incoming, coverUrl: '' } as Book);
+            result.added++;
+        } else {
+            result.skipped++;
+        }
+    }
+
+    // Trashed dictionaries still hold their entries, so they count as existing
+    const existingDicts = new Set([...await getDictionaries(), ...await getTrashedDictionaries()].map(d => d.id));
+    for (let i = 0; i < manifest.dictionaries.length; i++) {
+        const { meta, path } = manifest.dictionaries[i];
+        const entry = zip.file(path);
+        if (!entry) continue;
+        if (existingDicts.has(meta.id)) {
+            if (mode === 'merge') continue;
+            await deleteDictionary(meta.id);
+        }
+        onProgress(`Dictionaries ${i + 1}/${manifest.dictionaries.length}`);
+        await saveDictionary(meta, JSON.parse(await entry.async('string')));
+        result.dictionaries++;
+    }
+
+    return result;
+};
+
+// --- Progress JSON import (counterpart of exportData in db.ts) ---
+
+export interface ExportedBook {
+    id: string;
+    title: string;
+    progress?: number;
+    pageOffset?: number;
+    bookmarks?: Bookmark[];
+    addedAt?: number;
+    ankiTags?: string;
+}
+
+export interface ProgressExport {
+    settings?: ReaderSettings;
+    books: ExportedBook[];
+}
+
+export type ProgressField = 'progress' | 'pageOffset' | 'bookmarks' | 'ankiTags';
+
+export interface ProgressConflict {
+    field: ProgressField;
+    current: string;
+    incoming: string;
+    result: string;
+}
+
+export interface ProgressImportItem {
+    entry: ExportedBook;
+    book: Book | null;
+    matchedBy: 'id' | 'title' | null;
+    conflicts: ProgressConflict[];
+    changes: Partial<Pick<Book, ProgressField>>;
+    included: boolean;
+}
+
+export const readProgressExport = async (file: Blob): Promise<ProgressExport> => {
+    const data = JSON.parse(await file.text());
+    if (!data || !Array.isArray(data.books)) throw new Error("Not a progress export (books missing)");
+    return { settings: data.settings, books: data.books };
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+const splitTags = (tags?: string) => (tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+const describeBookmarks = (bookmarks?: Bookmark[]) => `${bookmarks?.length || 0}`;
+
+// Progress keeps the furthest page, bookmarks and tags are unioned, the exported page offset wins
+const mergeProgress = (book: Book, entry: ExportedBook) => {
+    const changes: ProgressImportItem['changes'] = {};
+    const conflicts: ProgressConflict[] = [];
+
+    const note = (field: ProgressField, current: string, incoming: string, result: string, differs: boolean) => {
+        if (differs) conflicts.push({ field, current, incoming, result });
+    };
+
+    if (entry.progress !== undefined) {
+        const current = book.progress || 0;
+        const result = Math.max(current, entry.progress);
+        if (result !== current) changes.progress = result;
+        note('progress', `${current + 1}`, `${entry.progress + 1}`, `${result + 1}`, !!book.progress && current !== entry.progress);
+    }
+
+    if (entry.pageOffset !== undefined && entry.pageOffset !== (book.pageOffset || 0)) {
+        changes.pageOffset = entry.pageOffset;
+        note('pageOffset', `${book.pageOffset || 0}`, `${entry.pageOffset}`, `${entry.pageOffset}`, !!book.pageOffset);
+    }
+
+    if (entry.bookmarks && entry.bookmarks.length > 0) {
+        const merged = mergeById(book.bookmarks, entry.bookmarks);
+        if (merged.length !== (book.bookmarks?.length || 0)) changes.bookmarks = merged;
+        note('bookmarks', describeBookmarks(book.bookmarks), describeBookmarks(entry.bookmarks), describeBookmarks(merged), (book.bookmarks?.length || 0) > 0 && merged.length !== book.bookmarks!.length);
+    }
+
+    if (entry.ankiTags) {
+        const current = splitTags(book.ankiTags);
+        const merged = Array.from(new Set([...current, ...splitTags(entry.ankiTags)]));
+        if (merged.length !== current.length) changes.ankiTags = merged.join(', ');
+        note('ankiTags', book.ankiTags || '', entry.ankiTags, merged.join(', '), current.length > 0 && merged.length !== current.length);
+    }
+
+    return { changes, conflicts };
+};
+
+export const planProgressImport = (data: ProgressExport, books: Book[]): ProgressImportItem[] => {
+    const byId = new Map(books.map(b => [b.id, b]));
+    const claimed = new Set(data.books.map(e => e.id).filter(id => byId.has(id)));
+
+    return data.books.map(entry => {
+        let book = byId.get(entry.id) || null;
+        let matchedBy: ProgressImportItem['matchedBy'] = book ? 'id' : null;
+
+        // Title fallback only for an unambiguous match that no id match already took
+        if (!book && entry.title) {
+            const candidates = books.filter(b => !claimed.has(b.id) && normalizeTitle(b.title) === normalizeTitle(entry.title));
+            if (candidates.length === 1) {
+                book = candidates[0];
+                matchedBy = 'title';
+                claimed.add(book.id);
+            }
+        }
+
+        const { changes, conflicts } = book ? mergeProgress(book, entry) : { changes: {}, conflicts: [] };
+        return {
+            entry,
+            book,
+            matchedBy,
+            conflicts,
+            changes,
+            included: !!book && Object.keys(changes).length > 0
+        };
+    });
+};
+
+export const applyProgressImport = async (items: ProgressImportItem[]): Promise<number> => {
+    let count = 0;
+    for (const item of items) {
+        if (!item.included || !item.book) continue;
+        const current = await getBook(item.book.id);
+        if (!current) continue;
+        await addBook({ ...current, ...item.changes });
+        count++;
+    }
+    return count;
+};
@@ -0,0 +1,57 @@
+import { Book, BookSettingKey, BookSettings, ReaderSettings } from '../types';
+
+/**
+ * Per-book layer over the global reader settings. A key present in the layer is owned by
+ * the book: changing it while reading the book updates the book, not the global settings.
+ */
+
+export const BOOK_SETTING_KEYS: BookSettingKey[] = ['readingDirection', 'pageViewMode', 'overlayStyle', 'comparisonLayout', 'tesseractLanguage', 'dictionarySource', 'fitMode', 'customZoom', 'imageAdjustments'];
+
+export const isBookSettingKey = (key: string): key is BookSettingKey => (BOOK_SETTING_KEYS as string[]).includes(key);
+
+export const getBookSettings = (book: Book): BookSettings => ({
+    ...book.settings,
+    ...(book.readingDirection ? { readingDirection: book.readingDirection } : {})
+});
+
+// Without an override the view mode follows the book type: webtoons scroll, manga never does
+const getTypeViewMode = (book: Book, settings: ReaderSettings): ReaderSettings['pageViewMode'] => {
+    if (book.type === 'webtoon') return 'webtoon';
+    return settings.pageViewMode === 'webtoon' ? 'single' : settings.pageViewMode;
+};
+
+export const applyBookSettings = (settings: ReaderSettings, book: Book, bookSettings: BookSettings): ReaderSettings => ({
+    ...settings,
+    ...(book.language ? { learningLanguage: book.language as ReaderSettings['learningLanguage'] } : {}),
+    pageViewMode: getTypeViewMode(book, settings),
+    ...bookSettings
+});
+
+// Generic over the key so the value keeps the type of that key
+const copySetting = <K extends keyof ReaderSettings>(target: Partial<Pick<ReaderSettings, K>>, source: ReaderSettings, key: K) => {
+    target[key] = source[key];
+};
+
+/**
+ * Splits a change of the effective settings into patches for the book layer and the global
+ * settings. Keys the book overrides stay with the book, as does the view mode of a webtoon,
+ * which would not change when written to the global settings.
+ */
+export const splitSettingsChange = (
+    next: ReaderSettings,
+    effective: ReaderSettings,
+    book: Book,
+    bookSettings: BookSettings
+): { global: Partial<ReaderSettings>; book: BookSettings } => {
+    const global: Partial<ReaderSettings> = {};
+    const bookPatch: BookSettings = {};
+    for (const key of Object.keys(next) as (keyof ReaderSettings)[]) {
+        if (next[key] === effective[key]) continue;
+        if (isBookSettingKey(key) && (key in bookSettings || (key === 'pageViewMode' && book.type === 'webtoon'))) {
+            copySetting(bookPatch, next, key);
+        } else {
+            copySetting(global, next, key);
+        }
+    }
+    return { global, book: bookPatch };
+};
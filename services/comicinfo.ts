@@ -0,0 +1,88 @@
+import { ComicInfo, ComicInfoPage, Book, ReadingDirection, SeriesInfo, SUPPORTED_LANGUAGES } from '../types';
+
+export const COMIC_INFO_FILE = 'comicinfo.xml';
+
+export const isComicInfoFileName = (name: string) =>
+    (name.split('/').pop() || '').toLowerCase() === COMIC_INFO_FILE;
+
+const getText = (root: Element, tag: string) => {
+    const el = root.getElementsByTagName(tag)[0];
+    const text = el?.textContent?.trim();
+    return text ? text : undefined;
+};
+
+export const parseComicInfo = (xml: string): ComicInfo | null => {
+    try {
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        const root = doc.getElementsByTagName('ComicInfo')[0];
+        if (!root || doc.getElementsByTagName('parsererror').length > 0) return null;
+
+        const pages: ComicInfoPage[] = Array.from(root.getElementsByTagName('Page'))
+            .map(el => ({
+                image: parseInt(el.getAttribute('Image') || '', 10),
+                type: el.getAttribute('Type') || undefined,
+                doublePage: el.getAttribute('DoublePage')?.toLowerCase() === 'true'
+            }))
+            .filter(p => !isNaN(p.image));
+
+        const volume = parseFloat(getText(root, 'Volume') || '');
+        return {
+            title: getText(root, 'Title'),
+            series: getText(root, 'Series'),
+            number: getText(root, 'Number'),
+            volume: isNaN(volume) ? undefined : volume,
+            writer: getText(root, 'Writer'),
+            languageISO: getText(root, 'LanguageISO'),
+            manga: getText(root, 'Manga') as ComicInfo['manga'],
+            format: getText(root, 'Format'),
+            pages
+        };
+    } catch (e) {
+        console.error("Failed to parse ComicInfo.xml", e);
+        return null;
+    }
+};
+
+// FrontCover and DoublePage entries are never paired with a neighbour in double page mode
+export const isSoloPage = (info: ComicInfo | null, index: number) => {
+    const page = info?.pages.find(p => p.image === index);
+    return !!page && (page.doublePage || page.type === 'FrontCover');
+};
+
+export interface ComicInfoDefaults {
+    title?: string;
+    language?: string;
+    type?: Book['type'];
+    readingDirection?: ReadingDirection;
+    series?: SeriesInfo;
+}
+
+// Values used to pre-fill the add book modal and batch import
+export const getComicInfoDefaults = (info: ComicInfo): ComicInfoDefaults => {
+    const number = parseFloat(info.number || '');
+    const lang = info.languageISO?.toLowerCase().split(/[-_]/)[0];
+
+    let title = info.title;
+    if (!title && info.series) {
+        title = info.number ? `${info.series} #${info.number}` : info.series;
+    }
+
+    let readingDirection: ReadingDirection | undefined;
+    if (info.manga === 'YesAndRightToLeft') readingDirection = 'rtl';
+    else if (info.manga === 'No') readingDirection = 'ltr';
+
+    const isWebtoon = !!info.format && /web\s*(toon|comic)/i.test(info.format);
+
+    return {
+        title,
+        language: SUPPORTED_LANGUAGES.some(l => l.code === lang) ? lang : undefined,
+        type: isWebtoon ? 'webtoon' : (info.manga && info.manga !== 'Unknown' ? 'manga' : undefined),
+        readingDirection,
+        series: info.series ? {
+            name: info.series,
+            // Number is the issue/chapter, Volume the tankobon volume
+            volume: info.volume ?? (isNaN(number) ? undefined : number),
+            chapter: info.volume !== undefined && !isNaN(number) ? number : undefined
+        } : undefined
+    };
+};
@@ -1,12 +1,37 @@
 
 
-import { Book, ReaderSettings, Bookmark, LocalDictionary, ReadingStats } from '../types';
+import { Book, BookFiles, BookFileSizes, ReaderSettings, Bookmark, LocalDictionary, ReadingStats, SeriesInfo, ReadingDirection, LibraryFolder, StorageBackend, PageManifestEntry, BookSettings, ComicInfo } from '../types';
+import { opfsBackend } from './opfsStore';
 
 const DB_NAME = 'ComicReaderDB';
 const STORE_NAME = 'books';
+const FILES_STORE = 'book_files';
+const PAGES_STORE = 'book_pages';
 const DICT_META_STORE = 'dict_meta';
 const DICT_DATA_STORE = 'dict_data';
-const VERSION = 2; 
+const LIBRARY_STORE = 'library_folder';
+const VERSION = 5; 
+
+const LIBRARY_FOLDER_ID = 'library';
+
+export type FileField = 'file' | 'translatedFile' | 'mokuroFile';
+const FILE_FIELDS: FileField[] = ['file', 'translatedFile', 'mokuroFile'];
+
+// v3: archives and OCR files move out of the book records into book_files
+const migrateSplitBookFiles = (db: IDBDatabase, tx: IDBTransaction) => {
+    db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+    const books = tx.objectStore(STORE_NAME);
+    const files = tx.objectStore(FILES_STORE);
+
+    books.openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+        if (!cursor) return;
+        const { meta, files: record } = splitBook(cursor.value as Book);
+        if (record) files.put(record);
+        cursor.update(meta);
+        cursor.continue();
+    };
+};
 
 export const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -14,16 +39,31 @@ export const openDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const tx = (event.target as IDBOpenDBRequest).transaction!;
+      if (event.oldVersion < 2) {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DICT_META_STORE)) {
+            db.createObjectStore(DICT_META_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DICT_DATA_STORE)) {
+            const dictStore = db.createObjectStore(DICT_DATA_STORE, { autoIncrement: true });
+            dictStore.createIndex('term', 'term', { unique: false });
+            dictStore.createIndex('dictId', 'dictId', { unique: false });
+        }
+      }
+      if (event.oldVersion < 3) {
+        migrateSplitBookFiles(db, tx);
       }
-      if (!db.objectStoreNames.contains(DICT_META_STORE)) {
-          db.createObjectStore(DICT_META_STORE, { keyPath: 'id' });
+      if (event.oldVersion < 4) {
+        // v4: optional per-page blobs for unpacked books
+        const pages = db.createObjectStore(PAGES_STORE, { keyPath: ['bookId', 'index'] });
+        pages.createIndex('bookId', 'bookId', { unique: false });
       }
-      if (!db.objectStoreNames.contains(DICT_DATA_STORE)) {
-          const dictStore = db.createObjectStore(DICT_DATA_STORE, { autoIncrement: true });
-          dictStore.createIndex('term', 'term', { unique: false });
-          dictStore.createIndex('dictId', 'dictId', { unique: false });
+      if (event.oldVersion < 5) {
+        // v5: directory handle of the library folder
+        db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
       }
     };
 
@@ -37,19 +77,123 @@ export const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export const addBook = async (book: Book): Promise<void> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(book);
+// Separates the blob fields of a book from its metadata record
+// Linked books have no archive blob but can still carry OCR and translated files
+const splitBook = (book: Book): { meta: Book; files: BookFiles | null } => {
+    const { file, translatedFile, mokuroFile, ...meta } = book;
+    if (!file && !translatedFile && !mokuroFile) return { meta, files: null };
+    const fileSizes: BookFileSizes = {
+        ...meta.fileSizes,
+        file: file ? file.size : meta.fileSizes?.file || 0,
+        translatedFile: translatedFile?.size,
+        mokuroFile: mokuroFile?.size
+    };
+    return {
+        meta: { ...meta, fileSizes },
+        files: { id: book.id, file, translatedFile, mokuroFile }
+    };
+};
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+// --- Blob Storage Backends ---
+
+/**
+ * Storage for the blobs of a book (archive, translation, OCR file).
+ * Metadata stays in the books store and Book.storage names the backend holding the blobs.
+ */
+export interface BlobBackend {
+    isAvailable: () => boolean;
+    read: (id: string) => Promise<BookFiles | undefined>;
+    // Fields set to undefined are removed, fields left out are kept
+    write: (id: string, blobs: Partial<Record<FileField, Blob | undefined>>) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+const indexedDBBackend: BlobBackend = {
+    isAvailable: () => true,
+
+    read: async (id) => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const request = db.transaction([FILES_STORE], 'readonly').objectStore(FILES_STORE).get(id);
+            request.onsuccess = () => resolve(request.result as BookFiles | undefined);
+            request.onerror = () => reject(request.error);
+        });
+    },
+
+    write: async (id, blobs) => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([FILES_STORE], 'readwrite');
+            const store = transaction.objectStore(FILES_STORE);
+            const request = store.get(id);
+            request.onsuccess = () => {
+                // Linked books only get a files record once something is attached
+                const record = (request.result as BookFiles | undefined) || { id };
+                FILE_FIELDS.forEach(field => {
+                    if (!(field in blobs)) return;
+                    if (blobs[field]) record[field] = blobs[field];
+                    else delete record[field];
+                });
+                store.put(record);
+            };
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    },
+
+    remove: async (id) => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([FILES_STORE], 'readwrite');
+            transaction.objectStore(FILES_STORE).delete(id);
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
 };
 
-export const getAllBooks = async (): Promise<Book[]> => {
+const BACKENDS: Record<StorageBackend, BlobBackend> = {
+    indexeddb: indexedDBBackend,
+    opfs: opfsBackend
+};
+
+// Backend for books added from now on, set from the reader settings
+let activeBackend: StorageBackend = 'indexeddb';
+
+export const isStorageBackendAvailable = (backend: StorageBackend) => BACKENDS[backend].isAvailable();
+
+export const setStorageBackend = (backend: StorageBackend) => {
+    activeBackend = isStorageBackendAvailable(backend) ? backend : 'indexeddb';
+};
+
+const backendOf = (book: Pick<Book, 'storage'> | undefined) => BACKENDS[book?.storage || 'indexeddb'];
+
+const putBookMeta = async (book: Book): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME], 'readwrite');
+        transaction.objectStore(STORE_NAME).put(book);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// Writes metadata, and the blobs as well when the book carries them.
+// Blobs are written first so a stored book never points at missing data.
+export const addBook = async (book: Book): Promise<void> => {
+  const { meta, files } = splitBook(book);
+  if (files) {
+      const previous = await getBook(book.id);
+      const { id, ...blobs } = files;
+      await BACKENDS[activeBackend].write(id, blobs);
+      if (previous && backendOf(previous) !== BACKENDS[activeBackend]) await backendOf(previous).remove(id);
+      meta.storage = activeBackend;
+  }
+  return putBookMeta(meta);
+};
+
+// Every book record including trashed ones
+const getBookRecords = async (): Promise<Book[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readonly');
@@ -64,20 +208,74 @@ export const getAllBooks = async (): Promise<Book[]> => {
   });
 };
 
-export const deleteBook = async (id: string): Promise<void> => {
+// Metadata only, without archive blobs. Books in the trash are left out.
+export const getAllBooks = async (): Promise<Book[]> => {
+  return (await getBookRecords()).filter(book => !book.deletedAt);
+};
+
+export const getTrashedBooks = async (): Promise<Book[]> => {
+  return (await getBookRecords()).filter(book => book.deletedAt).sort((a, b) => b.deletedAt! - a.deletedAt!);
+};
+
+export const getBook = async (id: string): Promise<Book | undefined> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(id);
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => resolve(request.result as Book | undefined);
     request.onerror = () => reject(request.error);
   });
 };
 
+export const getBookFiles = async (id: string): Promise<BookFiles | undefined> => {
+  return backendOf(await getBook(id)).read(id);
+};
+
+export const getBookWithFiles = async (id: string): Promise<Book | undefined> => {
+    const [book, files] = await Promise.all([getBook(id), getBookFiles(id)]);
+    if (!book) return undefined;
+    return files ? { ...book, file: files.file, translatedFile: files.translatedFile, mokuroFile: files.mokuroFile } : book;
+};
+
+// Soft delete: the book keeps its files, progress and stats until it is purged
+export const trashBook = async (id: string): Promise<void> => {
+    return updateBookField(id, 'deletedAt', Date.now());
+};
+
+export const restoreBook = async (id: string): Promise<void> => {
+    return updateBookField(id, 'deletedAt', undefined);
+};
+
+// Permanent deletion, also of the stored files
+export const deleteBook = async (id: string): Promise<void> => {
+  const backend = backendOf(await getBook(id));
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, FILES_STORE, PAGES_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    transaction.objectStore(FILES_STORE).delete(id);
+    transaction.objectStore(PAGES_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  if (backend !== indexedDBBackend) await backend.remove(id);
+};
+
+// Replaces (or with undefined removes) one blob and keeps fileSizes in sync
+const updateBookBlob = async (id: string, field: FileField, blob: Blob | undefined): Promise<void> => {
+    const book = await getBook(id);
+    if (!book) return;
+    if (blob || field !== 'file') await backendOf(book).write(id, { [field]: blob });
+    book.fileSizes = { ...(book.fileSizes || { file: 0 }), [field]: blob?.size };
+    // A stored archive replaces the linked file
+    if (field === 'file' && blob) delete book.fileHandle;
+    return putBookMeta(book);
+};
+
 export const updateBookMokuro = async (id: string, mokuroFile: Blob): Promise<void> => {
-    return updateBookField(id, 'mokuroFile', mokuroFile);
+    return updateBookBlob(id, 'mokuroFile', mokuroFile);
 }
 
 export const updateBookProgress = async (id: string, progress: number): Promise<void> => {
@@ -85,7 +283,7 @@ export const updateBookProgress = async (id: string, progress: number): Promise<
 }
 
 export const updateBookTranslatedFile = async (id: string, file: Blob): Promise<void> => {
-    return updateBookField(id, 'translatedFile', file);
+    return updateBookBlob(id, 'translatedFile', file);
 }
 
 export const updateBookOffset = async (id: string, offset: number): Promise<void> => {
@@ -106,7 +304,10 @@ export const updateBookCover = async (id: string, coverBlob: Blob | undefined, c
 }
 
 export const updateBookFile = async (id: string, file: Blob): Promise<void> => {
-    return updateBookField(id, 'file', file);
+    // Unpacked pages and the page manifest belong to the old archive
+    await deleteBookPages(id);
+    await updateBookField(id, 'pageManifest', undefined);
+    return updateBookBlob(id, 'file', file);
 }
 
 export const updateBookLanguage = async (id: string, language: string): Promise<void> => {
@@ -117,6 +318,167 @@ export const updateBookAnkiTags = async (id: string, tags: string): Promise<void
     return updateBookField(id, 'ankiTags', tags);
 }
 
+export const updateBookSeries = async (id: string, series: SeriesInfo | undefined): Promise<void> => {
+    return updateBookField(id, 'series', series);
+}
+
+export const updateBookReadingDirection = async (id: string, direction: ReadingDirection | undefined): Promise<void> => {
+    return updateBookField(id, 'readingDirection', direction);
+}
+
+export const updateBookPageManifest = async (id: string, manifest: PageManifestEntry[] | undefined): Promise<void> => {
+    return updateBookField(id, 'pageManifest', manifest);
+}
+
+export const updateBookFingerprint = async (id: string, fingerprint: string | undefined): Promise<void> => {
+    return updateBookField(id, 'fingerprint', fingerprint);
+}
+
+// The reading direction keeps its own field, which the edit dialog and ComicInfo also set
+export const updateBookSettings = async (id: string, settings: BookSettings | undefined): Promise<void> => {
+    const { readingDirection, ...others } = settings || {};
+    await updateBookField(id, 'readingDirection', readingDirection);
+    return updateBookField(id, 'settings', Object.keys(others).length > 0 ? others : undefined);
+}
+
+export const updateBookSpreadOffset = async (id: string, spreadOffset: boolean): Promise<void> => {
+    return updateBookField(id, 'spreadOffset', spreadOffset || undefined);
+}
+
+export const updateBookPageCount = async (id: string, pageCount: number): Promise<void> => {
+    return updateBookField(id, 'pageCount', pageCount);
+}
+
+export type BookAttachment = 'translatedFile' | 'mokuroFile' | 'coverBlob' | 'pages';
+
+// Drops an optional blob without touching the rest of the book
+export const removeBookAttachment = async (id: string, field: BookAttachment): Promise<void> => {
+    if (field === 'coverBlob') return updateBookCover(id, undefined, '');
+    if (field === 'pages') return deleteBookPages(id);
+    await updateBookBlob(id, field, undefined);
+    if (field === 'translatedFile') await updateBookField(id, 'pageOffset', undefined);
+};
+
+// --- Storage Migration ---
+
+// Copies the blobs of a book to another backend, switches the record over and only then drops the old copy
+export const moveBookStorage = async (id: string, target: StorageBackend): Promise<boolean> => {
+    const book = await getBook(id);
+    if (!book || (book.storage || 'indexeddb') === target) return false;
+    const source = backendOf(book);
+    const files = await source.read(id);
+    if (files) {
+        const { id: _, ...blobs } = files;
+        await BACKENDS[target].write(id, blobs);
+    }
+    await updateBookField(id, 'storage', target);
+    await source.remove(id);
+    return true;
+};
+
+// Returns the number of books moved; books already in the target backend are skipped
+export const migrateBookStorage = async (target: StorageBackend, onProgress: (msg: string) => void): Promise<number> => {
+    if (!isStorageBackendAvailable(target)) throw new Error(`Storage backend ${target} is not available`);
+    const books = await getBookRecords();
+    let moved = 0;
+    for (let i = 0; i < books.length; i++) {
+        onProgress(`Books ${i + 1}/${books.length}`);
+        if (await moveBookStorage(books[i].id, target)) moved++;
+    }
+    return moved;
+};
+
+// --- Unpacked Page Functions ---
+
+export interface StoredPage {
+    bookId: string;
+    index: number;
+    name: string;
+    blob: Blob;
+}
+
+// Appends a batch of pages; the book only switches to stored pages via setBookUnpackedPages
+export const saveBookPages = async (pages: StoredPage[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([PAGES_STORE], 'readwrite');
+        const store = tx.objectStore(PAGES_STORE);
+        pages.forEach(page => store.put(page));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const getBookPage = async (bookId: string, index: number): Promise<StoredPage | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const req = db.transaction([PAGES_STORE], 'readonly').objectStore(PAGES_STORE).get([bookId, index]);
+        req.onsuccess = () => resolve(req.result as StoredPage | undefined);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const setBookUnpackedPages = async (id: string, names: string[] | undefined, totalSize?: number, comicInfo?: ComicInfo | null): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([STORE_NAME], 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const getReq = store.get(id);
+        getReq.onsuccess = () => {
+            const book = getReq.result as Book | undefined;
+            if (!book) return;
+            book.unpackedPages = names;
+            book.unpackedComicInfo = names && comicInfo ? comicInfo : undefined;
+            if (book.fileSizes) book.fileSizes = { ...book.fileSizes, pages: totalSize };
+            store.put(book);
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteBookPages = async (id: string): Promise<void> => {
+    await setBookUnpackedPages(id, undefined);
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([PAGES_STORE], 'readwrite');
+        tx.objectStore(PAGES_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- Library Folder Functions ---
+
+export const getLibraryFolder = async (): Promise<LibraryFolder | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const req = db.transaction([LIBRARY_STORE], 'readonly').objectStore(LIBRARY_STORE).get(LIBRARY_FOLDER_ID);
+        req.onsuccess = () => resolve(req.result as LibraryFolder | undefined);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const saveLibraryFolder = async (folder: Omit<LibraryFolder, 'id'>): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([LIBRARY_STORE], 'readwrite');
+        tx.objectStore(LIBRARY_STORE).put({ ...folder, id: LIBRARY_FOLDER_ID });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteLibraryFolder = async (): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([LIBRARY_STORE], 'readwrite');
+        tx.objectStore(LIBRARY_STORE).delete(LIBRARY_FOLDER_ID);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
 export const updateBookStats = async (id: string, timeToAdd: number, pagesToAdd: number = 0): Promise<void> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
@@ -217,7 +579,8 @@ export const saveDictionary = async (meta: LocalDictionary, entries: any[]): Pro
     });
 };
 
-export const getDictionaries = async (): Promise<LocalDictionary[]> => {
+// Every dictionary including trashed ones
+const getDictionaryRecords = async (): Promise<LocalDictionary[]> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
         const tx = db.transaction([DICT_META_STORE], 'readonly');
@@ -237,6 +600,43 @@ export const getDictionaries = async (): Promise<LocalDictionary[]> => {
     });
 };
 
+// Dictionaries in the trash are left out, so lookups skip their entries
+export const getDictionaries = async (): Promise<LocalDictionary[]> => {
+    return (await getDictionaryRecords()).filter(dict => !dict.deletedAt);
+};
+
+export const getTrashedDictionaries = async (): Promise<LocalDictionary[]> => {
+    return (await getDictionaryRecords()).filter(dict => dict.deletedAt).sort((a, b) => b.deletedAt! - a.deletedAt!);
+};
+
+const updateDictionaryField = async <K extends keyof LocalDictionary>(id: string, field: K, value: LocalDictionary[K]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([DICT_META_STORE], 'readwrite');
+        const store = tx.objectStore(DICT_META_STORE);
+        const req = store.get(id);
+
+        req.onsuccess = () => {
+            const meta = req.result as LocalDictionary;
+            if (meta) {
+                meta[field] = value;
+                store.put(meta);
+            }
+        };
+        req.onerror = () => reject(req.error);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const trashDictionary = async (id: string): Promise<void> => {
+    return updateDictionaryField(id, 'deletedAt', Date.now());
+};
+
+export const restoreDictionary = async (id: string): Promise<void> => {
+    return updateDictionaryField(id, 'deletedAt', undefined);
+};
+
 export const deleteDictionary = async (id: string): Promise<void> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
@@ -259,6 +659,41 @@ export const deleteDictionary = async (id: string): Promise<void> => {
     });
 };
 
+export const getDictionaryEntries = async (dictId: string): Promise<any[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([DICT_DATA_STORE], 'readonly');
+        const index = tx.objectStore(DICT_DATA_STORE).index('dictId');
+        const req = index.getAll(IDBKeyRange.only(dictId));
+
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Approximate stored size per dictionary (UTF-8 length of the serialized entries)
+export const getDictionaryDataSizes = async (): Promise<Record<string, number>> => {
+    const db = await openDB();
+    const encoder = new TextEncoder();
+    return new Promise((resolve, reject) => {
+        const sizes: Record<string, number> = {};
+        const tx = db.transaction([DICT_DATA_STORE], 'readonly');
+        const req = tx.objectStore(DICT_DATA_STORE).openCursor();
+
+        req.onsuccess = () => {
+            const cursor = req.result;
+            if (cursor) {
+                const entry = cursor.value;
+                sizes[entry.dictId] = (sizes[entry.dictId] || 0) + encoder.encode(JSON.stringify(entry)).length;
+                cursor.continue();
+            } else {
+                resolve(sizes);
+            }
+        };
+        req.onerror = () => reject(req.error);
+    });
+};
+
 export const searchLocalDictionary = async (term: string): Promise<any[]> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
@@ -290,6 +725,21 @@ export const updateDictionaryPriority = async (id: string, newPriority: number):
     });
 };
 
+// --- Trash ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Permanently deletes trashed books and dictionaries older than the retention period; 0 days keeps everything
+export const purgeTrash = async (retentionDays: number): Promise<number> => {
+    if (!(retentionDays > 0)) return 0;
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const books = (await getTrashedBooks()).filter(book => book.deletedAt! < cutoff);
+    const dicts = (await getTrashedDictionaries()).filter(dict => dict.deletedAt! < cutoff);
+    for (const book of books) await deleteBook(book.id);
+    for (const dict of dicts) await deleteDictionary(dict.id);
+    return books.length + dicts.length;
+};
+
 export const exportData = async (settings: ReaderSettings) => {
     const books = await getAllBooks();
     const exportData = {
@@ -301,7 +751,8 @@ export const exportData = async (settings: ReaderSettings) => {
             pageOffset: b.pageOffset,
             bookmarks: b.bookmarks,
             addedAt: b.addedAt,
-            ankiTags: b.ankiTags
+            ankiTags: b.ankiTags,
+            series: b.series
         }))
     };
     
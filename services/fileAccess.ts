@@ -0,0 +1,83 @@
+import { Book, BookFiles } from '../types';
+import { getBookFiles } from './db';
+import { isSupportedBookFile, BOOK_FILE_ACCEPT } from './parser';
+import { ImportFile } from './importer';
+
+// File System Access API: books can link to archives on disk instead of copying them into IndexedDB.
+// Pickers and permission methods are Chromium only and missing from the TypeScript DOM lib.
+
+type PermissionDescriptor = { mode: 'read' | 'readwrite' };
+
+interface PermissionHandle {
+    queryPermission: (descriptor: PermissionDescriptor) => Promise<PermissionState>;
+    requestPermission: (descriptor: PermissionDescriptor) => Promise<PermissionState>;
+}
+
+interface IterableDirectoryHandle {
+    values: () => AsyncIterable<FileSystemFileHandle | FileSystemDirectoryHandle>;
+}
+
+interface PickerWindow {
+    showOpenFilePicker?: (options: {
+        multiple?: boolean;
+        types?: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle[]>;
+    showDirectoryPicker?: (options: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+}
+
+const pickerWindow = () => window as unknown as PickerWindow;
+
+export const isFileSystemAccessSupported = () =>
+    typeof pickerWindow().showOpenFilePicker === 'function' && typeof pickerWindow().showDirectoryPicker === 'function';
+
+export const hasHandlePermission = async (handle: FileSystemHandle): Promise<boolean> =>
+    (await (handle as unknown as PermissionHandle).queryPermission({ mode: 'read' })) === 'granted';
+
+// Has to run from a user gesture, otherwise the browser rejects the prompt
+export const requestHandlePermission = async (handle: FileSystemHandle): Promise<boolean> => {
+    if (await hasHandlePermission(handle)) return true;
+    try {
+        return (await (handle as unknown as PermissionHandle).requestPermission({ mode: 'read' })) === 'granted';
+    } catch (e) {
+        console.error("Permission request failed", e);
+        return false;
+    }
+};
+
+// Cancelling a picker rejects with an AbortError
+export const isPickerAbort = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+export const pickBookFiles = async (): Promise<ImportFile[]> => {
+    const handles = await pickerWindow().showOpenFilePicker!({
+        multiple: true,
+        types: [{ description: 'Comic archives', accept: { 'application/octet-stream': [...BOOK_FILE_ACCEPT.split(','), '.mokuro'] } }]
+    });
+    return Promise.all(handles.map(async handle => ({ file: await handle.getFile(), path: handle.name, handle })));
+};
+
+export const pickLibraryFolder = () => pickerWindow().showDirectoryPicker!({ id: 'library', mode: 'read' });
+
+// Book archives and .mokuro sidecars below a folder, with paths relative to it
+export const scanDirectory = async (dir: FileSystemDirectoryHandle, prefix = ''): Promise<ImportFile[]> => {
+    const out: ImportFile[] = [];
+    for await (const entry of (dir as unknown as IterableDirectoryHandle).values()) {
+        const path = prefix + entry.name;
+        if (entry.kind === 'directory') {
+            out.push(...await scanDirectory(entry as FileSystemDirectoryHandle, `${path}/`));
+        } else if (isSupportedBookFile(entry.name) || /\.mokuro$/i.test(entry.name)) {
+            const handle = entry as FileSystemFileHandle;
+            out.push({ file: await handle.getFile(), path, handle });
+        }
+    }
+    return out;
+};
+
+/**
+ * The archive of a book: the stored blob, or the linked file read from disk.
+ * Reading a linked file throws NotAllowedError without permission and
+ * NotFoundError once the file was moved or deleted.
+ */
+export const getBookArchive = async (book: Pick<Book, 'id' | 'fileHandle'>, files?: BookFiles): Promise<Blob | undefined> => {
+    if (book.fileHandle) return book.fileHandle.getFile();
+    return (files || await getBookFiles(book.id))?.file;
+};
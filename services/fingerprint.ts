@@ -0,0 +1,56 @@
+import { Book } from '../types';
+import { updateBookFingerprint } from './db';
+import { getBookArchive } from './fileAccess';
+
+/**
+ * Content fingerprint of a book archive, independent of its file name.
+ * SubtleCrypto cannot hash a stream, so archives above FULL_HASH_LIMIT are hashed from
+ * their size and evenly spaced samples instead of being read into memory whole.
+ */
+
+const FULL_HASH_LIMIT = 64 * 1024 * 1024;
+const SAMPLE_COUNT = 32;
+const SAMPLE_SIZE = 64 * 1024;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export const computeFingerprint = async (file: Blob): Promise<string> => {
+    if (file.size <= FULL_HASH_LIMIT) {
+        return `sha256:${toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()))}`;
+    }
+    const parts: BlobPart[] = [String(file.size)];
+    const stride = Math.floor((file.size - SAMPLE_SIZE) / (SAMPLE_COUNT - 1));
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+        parts.push(file.slice(i * stride, i * stride + SAMPLE_SIZE));
+    }
+    const sampled = await new Blob(parts).arrayBuffer();
+    return `sampled:${toHex(await crypto.subtle.digest('SHA-256', sampled))}`;
+};
+
+// Fingerprinting is best effort: a file that cannot be read is simply not matched
+export const tryComputeFingerprint = async (file: Blob): Promise<string | undefined> => {
+    try {
+        return await computeFingerprint(file);
+    } catch (e) {
+        console.error("Failed to fingerprint file", e);
+        return undefined;
+    }
+};
+
+/**
+ * Library book with the same content. Books added before fingerprints were stored are
+ * hashed on demand, and only when their archive has the same size.
+ */
+export const findDuplicateBook = async (fingerprint: string, size: number, library: Book[]): Promise<Book | undefined> => {
+    const match = library.find(book => book.fingerprint === fingerprint);
+    if (match) return match;
+    for (const book of library.filter(b => !b.fingerprint && b.fileSizes?.file === size)) {
+        const archive = await getBookArchive(book).catch(() => undefined);
+        const computed = archive && await tryComputeFingerprint(archive);
+        if (!computed) continue;
+        book.fingerprint = computed;
+        await updateBookFingerprint(book.id, computed);
+        if (computed === fingerprint) return book;
+    }
+    return undefined;
+};
@@ -16,7 +16,7 @@ export const translations = {
     cancel: '取消',
     deleteBook: '删除书籍',
     emptyLibrary: '书架是空的',
-    emptyLibrarySub: '添加 .zip 或 .cbz 格式的漫画开始阅读',
+    emptyLibrarySub: '添加 .cbz、.cbr、.cb7 或 .pdf 格式的漫画开始阅读',
     added: '添加于',
     ocr: 'OCR',
     update: '更新',
@@ -56,7 +56,7 @@ export const translations = {
     exitFullscreen: '退出全屏',
     bookDetails: '书籍详情',
     translation: '翻译对照',
-    uploadTrans: '上传翻译版 (.zip/.cbz)',
+    uploadTrans: '上传翻译版 (.cbz/.cbr/.cb7/.pdf)',
     pageOffset: '页码偏移',
     pageOffsetDesc: '调整翻译版页码 (正数向后，负数向前)',
     enableCompare: '启用对照模式',
@@ -131,7 +131,7 @@ export const translations = {
     ttsEnabled: '语音播放',
     changeCover: '更换封面',
     downloadCover: '下载封面',
-    replaceFile: '替换书籍文件 (.zip/.cbz)',
+    replaceFile: '替换书籍文件 (.cbz/.cbr/.cb7/.pdf)',
     fileSize: '文件大小',
     uploadImage: '导入图片',
     webSearchEngine: '网络搜索引擎',
@@ -188,6 +188,144 @@ export const translations = {
     testScript: '测试脚本连接',
     enableExternalParams: '启用自定义参数',
     clearCustomDef: '清空内容',
+    importFolder: '导入文件夹',
+    batchImport: '批量导入',
+    applyToAll: '全部应用',
+    importSelected: '导入所选',
+    series: '系列',
+    volume: '卷',
+    chapter: '话',
+    seriesView: '系列视图',
+    noSeries: '未分组',
+    nextVolume: '继续下一卷',
+    volumesRead: '卷已读完',
+    books: '本书',
+    backupRestore: '备份与恢复',
+    backupLight: '轻量备份',
+    backupFull: '完整备份',
+    backupLightDesc: '仅包含设置、进度、书签、OCR 和封面，不含漫画文件和词典',
+    restore: '恢复',
+    restoreMerge: '合并',
+    restoreReplace: '覆盖',
+    restoreMergeDesc: '保留本地数据，只补充备份中新增的内容',
+    restoreReplaceDesc: '以备份为准覆盖同 ID 的书籍、词典和设置',
+    restoreDone: '恢复完成 (新增 / 更新 / 跳过)',
+    importProgress: '导入阅读进度',
+    importProgressDone: '已更新书籍',
+    conflictReport: '冲突报告 (本地 / 文件 → 结果)',
+    notInLibrary: '书库中无此书',
+    applyImportedSettings: '同时应用导出的设置',
+    confirmImport: '确认导入',
+    storage: '存储空间',
+    dictionaries: '词典',
+    analyzeStorage: '分析存储占用',
+    storagePersisted: '已启用持久存储',
+    requestPersist: '申请持久存储 (防止浏览器自动清理)',
+    persistDenied: '浏览器拒绝了持久存储请求',
+    removeAttachment: '移除附件',
+    removeAttachmentConfirm: '移除此附件？书籍本身会保留。',
+    unpackOnImport: '导入时解包页面 (打开更快，占用更多空间)',
+    unpackPages: '解包页面',
+    removeUnpackedPages: '移除已解包页面',
+    pagesStored: '页已单独存储',
+    imageCacheSize: '图片缓存',
+    preloadPages: '预加载页数',
+    linkedFileMissing: '找不到链接的文件，可能已被移动或删除',
+    fileAccessNeeded: '此书链接到磁盘上的文件，需要授予读取权限',
+    grantAccess: '允许访问',
+    linkFiles: '链接文件 (不复制)',
+    setLibraryFolder: '设置书库文件夹',
+    rescanLibraryFolder: '重新扫描书库文件夹',
+    libraryScanDone: '新增书籍',
+    libraryFolder: '书库文件夹',
+    removeLibraryFolder: '移除书库文件夹',
+    storageBackend: '书籍存储位置',
+    storageOpfs: '私有文件系统 (OPFS)',
+    migrateStorage: '迁移',
+    migrateStorageConfirm: '将所有已有书籍的文件移动到所选的存储位置？',
+    migrateStorageDone: '已迁移书籍',
+    createFromImages: '从图片创建书籍',
+    pastedImages: '粘贴的图片',
+    sortByName: '按文件名排序',
+    reorderPagesHint: '拖动或使用箭头调整页面顺序，也可以直接粘贴截图添加页面',
+    createBook: '创建书籍',
+    pageOrganizer: '整理页面',
+    pageOrganizerHint: '拖动调整顺序；可隐藏重复页、旋转页面，或将扫描成一张的跨页拆分为左右两页',
+    hidePage: '隐藏页面',
+    showPage: '显示页面',
+    rotatePage: '旋转 90°',
+    splitPage: '拆分跨页',
+    mergePage: '取消拆分',
+    resetPageOrder: '恢复原始顺序',
+    spreadOffset: '双页错开一页 (本书)',
+    duplicateFound: '此文件已在书库中',
+    duplicateOf: '重复',
+    replaceDuplicate: '替换文件',
+    replaceFileHint: '用新文件替换原书的档案，保留阅读进度和书签',
+    addAnyway: '仍然添加',
+    trash: '回收站',
+    trashEmpty: '回收站是空的',
+    restoreFromTrash: '恢复',
+    deleteForever: '永久删除',
+    deleteForeverConfirm: '永久删除后无法恢复，阅读进度、书签和统计也会一并删除。确定吗？',
+    emptyTrash: '清空回收站',
+    daysUntilPurge: '天后永久删除',
+    trashRetention: '回收站自动清理',
+    daysShort: '天',
+    trashKeepForever: '从不',
+    thisBook: '本书',
+    global: '全局',
+    useBookSetting: '仅对本书保存此设置',
+    useGlobalSetting: '改回使用全局设置',
+    bookSettingsActive: '本书专属设置',
+    resetToGlobal: '恢复全局设置',
+    dictionarySource: '词典来源',
+    fitMode: '适应方式',
+    fitPage: '整页',
+    fitWidth: '宽度',
+    fitHeight: '高度',
+    fitOriginal: '原始',
+    fitCustom: '自定义',
+    customZoom: '缩放比例',
+    keepZoom: '翻页时保持缩放',
+    imageAdjustments: '图像调整',
+    blackPoint: '黑场',
+    whitePoint: '白场',
+    brightness: '亮度',
+    contrast: '对比度',
+    gamma: '伽马',
+    toneNone: '原色',
+    toneGrayscale: '灰度',
+    toneSepia: '怀旧',
+    resetAdjustments: '重置调整',
+    invertInDark: '深色主题下反色',
+    autoCrop: '自动裁切白边',
+    tapZones: '点击区域',
+    tapZonesHint: '点击格子切换动作。布局按从左到右的书显示，从右到左的书会左右镜像。',
+    tapPresetLShape: 'L 形',
+    tapPresetEdges: '边缘',
+    tapPresetKindle: 'Kindle',
+    tapPresetCustom: '自定义',
+    tapActionNext: '下一页',
+    tapActionPrev: '上一页',
+    tapActionMenu: '菜单',
+    tapActionBookmark: '书签',
+    tapActionOcrCrop: 'OCR 框选',
+    tapActionNone: '无',
+    swipeToTurn: '左右滑动翻页',
+    toggleBookmarks: '书签列表',
+    ocrCrop: 'OCR 框选',
+    toggleOcr: '显示/隐藏 OCR',
+    dictionarySearch: '词典搜索',
+    compareMode: '切换对照',
+    keyboardProfile: '键盘',
+    gamepadProfile: '手柄',
+    bindingConflict: '与以下动作冲突：',
+    resolveConflicts: '请先解决按键冲突再保存',
+    clearBinding: '清除绑定',
+    pressGamepadButton: '请按手柄按键...',
+    seriesOrder: '排序',
+    seriesOrderHint: '在系列中的手动排序，留空则按卷和话排序',
   },
   'zh-Hant': {
     library: '我的漫畫',
@@ -204,7 +342,7 @@ export const translations = {
     cancel: '取消',
     deleteBook: '刪除書籍',
     emptyLibrary: '書架是空的',
-    emptyLibrarySub: '添加 .zip 或 .cbz 格式的漫畫開始閱讀',
+    emptyLibrarySub: '添加 .cbz、.cbr、.cb7 或 .pdf 格式的漫畫開始閱讀',
     added: '添加於',
     ocr: 'OCR',
     update: '更新',
@@ -244,7 +382,7 @@ export const translations = {
     exitFullscreen: '退出全螢幕',
     bookDetails: '書籍詳情',
     translation: '翻譯對照',
-    uploadTrans: '上傳翻譯版 (.zip/.cbz)',
+    uploadTrans: '上傳翻譯版 (.cbz/.cbr/.cb7/.pdf)',
     pageOffset: '頁碼偏移',
     pageOffsetDesc: '調整翻譯版頁碼 (正數向後，負數向前)',
     enableCompare: '啟用對照模式',
@@ -319,7 +457,7 @@ export const translations = {
     ttsEnabled: '語音播放',
     changeCover: '更換封面',
     downloadCover: '下載封面',
-    replaceFile: '替換書籍文件 (.zip/.cbz)',
+    replaceFile: '替換書籍文件 (.cbz/.cbr/.cb7/.pdf)',
     fileSize: '文件大小',
     uploadImage: '導入圖片',
     webSearchEngine: '網絡搜尋引擎',
@@ -376,6 +514,144 @@ export const translations = {
     testScript: '測試腳本連接',
     enableExternalParams: '啟用自定義參數',
     clearCustomDef: '清空內容',
+    importFolder: '導入資料夾',
+    batchImport: '批量導入',
+    applyToAll: '全部套用',
+    importSelected: '導入所選',
+    series: '系列',
+    volume: '卷',
+    chapter: '話',
+    seriesView: '系列檢視',
+    noSeries: '未分組',
+    nextVolume: '繼續下一卷',
+    volumesRead: '卷已讀完',
+    books: '本書',
+    backupRestore: '備份與還原',
+    backupLight: '輕量備份',
+    backupFull: '完整備份',
+    backupLightDesc: '僅包含設定、進度、書籤、OCR 和封面，不含漫畫檔案和辭典',
+    restore: '還原',
+    restoreMerge: '合併',
+    restoreReplace: '覆蓋',
+    restoreMergeDesc: '保留本地資料，只補充備份中新增的內容',
+    restoreReplaceDesc: '以備份為準覆蓋同 ID 的書籍、辭典和設定',
+    restoreDone: '還原完成 (新增 / 更新 / 跳過)',
+    importProgress: '導入閱讀進度',
+    importProgressDone: '已更新書籍',
+    conflictReport: '衝突報告 (本地 / 檔案 → 結果)',
+    notInLibrary: '書庫中無此書',
+    applyImportedSettings: '同時套用匯出的設定',
+    confirmImport: '確認導入',
+    storage: '儲存空間',
+    dictionaries: '辭典',
+    analyzeStorage: '分析儲存佔用',
+    storagePersisted: '已啟用持久儲存',
+    requestPersist: '申請持久儲存 (防止瀏覽器自動清理)',
+    persistDenied: '瀏覽器拒絕了持久儲存請求',
+    removeAttachment: '移除附件',
+    removeAttachmentConfirm: '移除此附件？書籍本身會保留。',
+    unpackOnImport: '導入時解包頁面 (開啟更快，佔用更多空間)',
+    unpackPages: '解包頁面',
+    removeUnpackedPages: '移除已解包頁面',
+    pagesStored: '頁已單獨儲存',
+    imageCacheSize: '圖片快取',
+    preloadPages: '預載頁數',
+    linkedFileMissing: '找不到連結的檔案，可能已被移動或刪除',
+    fileAccessNeeded: '此書連結到磁碟上的檔案，需要授予讀取權限',
+    grantAccess: '允許存取',
+    linkFiles: '連結檔案 (不複製)',
+    setLibraryFolder: '設定書庫資料夾',
+    rescanLibraryFolder: '重新掃描書庫資料夾',
+    libraryScanDone: '新增書籍',
+    libraryFolder: '書庫資料夾',
+    removeLibraryFolder: '移除書庫資料夾',
+    storageBackend: '書籍儲存位置',
+    storageOpfs: '私有檔案系統 (OPFS)',
+    migrateStorage: '遷移',
+    migrateStorageConfirm: '將所有現有書籍的檔案移動到所選的儲存位置？',
+    migrateStorageDone: '已遷移書籍',
+    createFromImages: '從圖片建立書籍',
+    pastedImages: '貼上的圖片',
+    sortByName: '依檔名排序',
+    reorderPagesHint: '拖曳或使用箭頭調整頁面順序，也可以直接貼上截圖新增頁面',
+    createBook: '建立書籍',
+    pageOrganizer: '整理頁面',
+    pageOrganizerHint: '拖曳調整順序；可隱藏重複頁、旋轉頁面，或將掃描成一張的跨頁拆分為左右兩頁',
+    hidePage: '隱藏頁面',
+    showPage: '顯示頁面',
+    rotatePage: '旋轉 90°',
+    splitPage: '拆分跨頁',
+    mergePage: '取消拆分',
+    resetPageOrder: '恢復原始順序',
+    spreadOffset: '雙頁錯開一頁 (本書)',
+    duplicateFound: '此檔案已在書庫中',
+    duplicateOf: '重複',
+    replaceDuplicate: '替換檔案',
+    replaceFileHint: '用新檔案替換原書的檔案，保留閱讀進度和書籤',
+    addAnyway: '仍然新增',
+    trash: '資源回收筒',
+    trashEmpty: '資源回收筒是空的',
+    restoreFromTrash: '還原',
+    deleteForever: '永久刪除',
+    deleteForeverConfirm: '永久刪除後無法還原，閱讀進度、書籤和統計也會一併刪除。確定嗎？',
+    emptyTrash: '清空資源回收筒',
+    daysUntilPurge: '天後永久刪除',
+    trashRetention: '資源回收筒自動清理',
+    daysShort: '天',
+    trashKeepForever: '從不',
+    thisBook: '本書',
+    global: '全域',
+    useBookSetting: '僅對本書儲存此設定',
+    useGlobalSetting: '改回使用全域設定',
+    bookSettingsActive: '本書專屬設定',
+    resetToGlobal: '恢復全域設定',
+    dictionarySource: '詞典來源',
+    fitMode: '適應方式',
+    fitPage: '整頁',
+    fitWidth: '寬度',
+    fitHeight: '高度',
+    fitOriginal: '原始',
+    fitCustom: '自訂',
+    customZoom: '縮放比例',
+    keepZoom: '翻頁時保持縮放',
+    imageAdjustments: '圖像調整',
+    blackPoint: '黑場',
+    whitePoint: '白場',
+    brightness: '亮度',
+    contrast: '對比度',
+    gamma: '伽瑪',
+    toneNone: '原色',
+    toneGrayscale: '灰階',
+    toneSepia: '懷舊',
+    resetAdjustments: '重置調整',
+    invertInDark: '深色主題下反色',
+    autoCrop: '自動裁切白邊',
+    tapZones: '點擊區域',
+    tapZonesHint: '點擊格子切換動作。佈局按從左到右的書顯示，從右到左的書會左右鏡像。',
+    tapPresetLShape: 'L 形',
+    tapPresetEdges: '邊緣',
+    tapPresetKindle: 'Kindle',
+    tapPresetCustom: '自訂',
+    tapActionNext: '下一頁',
+    tapActionPrev: '上一頁',
+    tapActionMenu: '選單',
+    tapActionBookmark: '書籤',
+    tapActionOcrCrop: 'OCR 框選',
+    tapActionNone: '無',
+    swipeToTurn: '左右滑動翻頁',
+    toggleBookmarks: '書籤列表',
+    ocrCrop: 'OCR 框選',
+    toggleOcr: '顯示/隱藏 OCR',
+    dictionarySearch: '詞典搜尋',
+    compareMode: '切換對照',
+    keyboardProfile: '鍵盤',
+    gamepadProfile: '手把',
+    bindingConflict: '與以下動作衝突：',
+    resolveConflicts: '請先解決按鍵衝突再儲存',
+    clearBinding: '清除綁定',
+    pressGamepadButton: '請按手把按鍵...',
+    seriesOrder: '排序',
+    seriesOrderHint: '在系列中的手動排序，留空則按卷和話排序',
   },
   en: {
     library: 'My Comics',
@@ -392,7 +668,7 @@ export const translations = {
     cancel: 'Cancel',
     deleteBook: 'Delete Book',
     emptyLibrary: 'Your bookshelf is empty',
-    emptyLibrarySub: 'Add a .zip or .cbz comic to get started',
+    emptyLibrarySub: 'Add a .cbz, .cbr, .cb7 or .pdf comic to get started',
     added: 'Added',
     ocr: 'OCR',
     update: 'Update',
@@ -432,7 +708,7 @@ export const translations = {
     exitFullscreen: 'Exit Fullscreen',
     bookDetails: 'Book Details',
     translation: 'Translation',
-    uploadTrans: 'Upload Translation (.zip/.cbz)',
+    uploadTrans: 'Upload Translation (.cbz/.cbr/.cb7/.pdf)',
     pageOffset: 'Page Offset',
     pageOffsetDesc: 'Adjust translated page index (Positive or Negative)',
     enableCompare: 'Enable Comparison',
@@ -507,7 +783,7 @@ export const translations = {
     ttsEnabled: 'Audio Playback',
     changeCover: 'Change Cover',
     downloadCover: 'Download Cover',
-    replaceFile: 'Replace Book File (.zip/.cbz)',
+    replaceFile: 'Replace Book File (.cbz/.cbr/.cb7/.pdf)',
     fileSize: 'File Size',
     uploadImage: 'Upload Image',
     webSearchEngine: 'Web Search Engine',
@@ -564,6 +840,144 @@ export const translations = {
     testScript: 'Test Script Connection',
     enableExternalParams: 'Enable Custom Params',
     clearCustomDef: 'Clear Content',
+    importFolder: 'Import Folder',
+    batchImport: 'Batch Import',
+    applyToAll: 'Apply to all',
+    importSelected: 'Import Selected',
+    series: 'Series',
+    volume: 'Vol.',
+    chapter: 'Ch.',
+    seriesView: 'Series View',
+    noSeries: 'No Series',
+    nextVolume: 'Continue to next volume',
+    volumesRead: 'volumes read',
+    books: 'books',
+    backupRestore: 'Backup & Restore',
+    backupLight: 'Light',
+    backupFull: 'Full',
+    backupLightDesc: 'Settings, progress, bookmarks, OCR and covers only, without archives and dictionaries',
+    restore: 'Restore',
+    restoreMerge: 'Merge',
+    restoreReplace: 'Replace',
+    restoreMergeDesc: 'Keep local data and only add what the backup adds',
+    restoreReplaceDesc: 'Overwrite books, dictionaries and settings with the same id from the backup',
+    restoreDone: 'Restore complete (added / updated / skipped)',
+    importProgress: 'Import Progress',
+    importProgressDone: 'Books updated',
+    conflictReport: 'Conflict report (local / file → result)',
+    notInLibrary: 'Not in library',
+    applyImportedSettings: 'Also apply exported settings',
+    confirmImport: 'Import',
+    storage: 'Storage',
+    dictionaries: 'Dictionaries',
+    analyzeStorage: 'Analyze Storage',
+    storagePersisted: 'Persistent storage enabled',
+    requestPersist: 'Request persistent storage (prevents eviction)',
+    persistDenied: 'The browser denied persistent storage',
+    removeAttachment: 'Remove attachment',
+    removeAttachmentConfirm: 'Remove this attachment? The book itself is kept.',
+    unpackOnImport: 'Unpack pages on import (faster opening, more storage)',
+    unpackPages: 'Unpack pages',
+    removeUnpackedPages: 'Remove unpacked pages',
+    pagesStored: 'pages stored',
+    imageCacheSize: 'Image cache',
+    preloadPages: 'Preload pages',
+    linkedFileMissing: 'The linked file could not be found. It may have been moved or deleted.',
+    fileAccessNeeded: 'This book is linked to a file on disk. Allow access to read it.',
+    grantAccess: 'Allow access',
+    linkFiles: 'Link files (no copy)',
+    setLibraryFolder: 'Set library folder',
+    rescanLibraryFolder: 'Rescan library folder',
+    libraryScanDone: 'Books added',
+    libraryFolder: 'Library folder',
+    removeLibraryFolder: 'Remove library folder',
+    storageBackend: 'Book storage',
+    storageOpfs: 'Private file system (OPFS)',
+    migrateStorage: 'Move',
+    migrateStorageConfirm: 'Move the files of all existing books to the selected storage?',
+    migrateStorageDone: 'Books moved',
+    createFromImages: 'Create book from images',
+    pastedImages: 'Pasted images',
+    sortByName: 'Sort by name',
+    reorderPagesHint: 'Drag or use the arrows to reorder pages. Paste screenshots to add more.',
+    createBook: 'Create book',
+    pageOrganizer: 'Organize pages',
+    pageOrganizerHint: 'Drag to reorder. Hide duplicate pages, rotate pages, or split spreads scanned as one image into left and right halves.',
+    hidePage: 'Hide page',
+    showPage: 'Show page',
+    rotatePage: 'Rotate 90°',
+    splitPage: 'Split spread',
+    mergePage: 'Merge halves',
+    resetPageOrder: 'Reset to archive order',
+    spreadOffset: 'Offset spreads by one page (this book)',
+    duplicateFound: 'Already in your library',
+    duplicateOf: 'Duplicate of',
+    replaceDuplicate: 'Replace file',
+    replaceFileHint: 'Use this file for the existing book, keeping its progress and bookmarks',
+    addAnyway: 'Add anyway',
+    trash: 'Trash',
+    trashEmpty: 'The trash is empty',
+    restoreFromTrash: 'Restore',
+    deleteForever: 'Delete forever',
+    deleteForeverConfirm: 'This cannot be undone. Progress, bookmarks and stats are deleted too. Continue?',
+    emptyTrash: 'Empty trash',
+    daysUntilPurge: 'days until deleted for good',
+    trashRetention: 'Empty trash automatically after',
+    daysShort: 'days',
+    trashKeepForever: 'Never',
+    thisBook: 'This book',
+    global: 'Global',
+    useBookSetting: 'Keep this setting for this book only',
+    useGlobalSetting: 'Use the global setting again',
+    bookSettingsActive: 'Settings for this book',
+    resetToGlobal: 'Reset to global',
+    dictionarySource: 'Dictionary source',
+    fitMode: 'Fit',
+    fitPage: 'Page',
+    fitWidth: 'Width',
+    fitHeight: 'Height',
+    fitOriginal: '1:1',
+    fitCustom: 'Custom',
+    customZoom: 'Zoom',
+    keepZoom: 'Keep zoom when turning pages',
+    imageAdjustments: 'Image adjustments',
+    blackPoint: 'Black point',
+    whitePoint: 'White point',
+    brightness: 'Brightness',
+    contrast: 'Contrast',
+    gamma: 'Gamma',
+    toneNone: 'Color',
+    toneGrayscale: 'Grayscale',
+    toneSepia: 'Sepia',
+    resetAdjustments: 'Reset adjustments',
+    invertInDark: 'Invert pages in dark theme',
+    autoCrop: 'Trim page margins',
+    tapZones: 'Tap Zones',
+    tapZonesHint: 'Tap a cell to change its action. The layout is shown for left-to-right books and mirrored for right-to-left ones.',
+    tapPresetLShape: 'L-shape',
+    tapPresetEdges: 'Edges',
+    tapPresetKindle: 'Kindle',
+    tapPresetCustom: 'Custom',
+    tapActionNext: 'Next',
+    tapActionPrev: 'Previous',
+    tapActionMenu: 'Menu',
+    tapActionBookmark: 'Bookmark',
+    tapActionOcrCrop: 'OCR crop',
+    tapActionNone: 'None',
+    swipeToTurn: 'Swipe to turn pages',
+    toggleBookmarks: 'Bookmark List',
+    ocrCrop: 'OCR Crop',
+    toggleOcr: 'Toggle OCR',
+    dictionarySearch: 'Dictionary Search',
+    compareMode: 'Toggle Comparison',
+    keyboardProfile: 'Keyboard',
+    gamepadProfile: 'Gamepad',
+    bindingConflict: 'Also bound to: ',
+    resolveConflicts: 'Resolve the conflicts before saving',
+    clearBinding: 'Clear binding',
+    pressGamepadButton: 'Press a button...',
+    seriesOrder: 'Order',
+    seriesOrderHint: 'Manual position in the series; leave empty to sort by volume and chapter',
   }
 };
 
@@ -0,0 +1,179 @@
+import { ImageAdjustments, MokuroPage } from '../types';
+import { BookSource } from './parser';
+
+/**
+ * Colour adjustments and margin trimming applied to pages as they are decoded.
+ * Pages go through a lookup table per channel (levels, brightness, contrast, gamma),
+ * then the tone (grayscale or sepia) and the dark theme invert. Trimming removes rows and
+ * columns matching the border colour; the crop of each page is kept so OCR boxes can follow.
+ */
+
+export interface PageCrop {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    sourceWidth: number; // Size of the page before trimming
+    sourceHeight: number;
+}
+
+// Border pixels within this luminance distance count as margin
+const TRIM_TOLERANCE = 24;
+// Share of a row or column that must match the margin colour
+const TRIM_COVERAGE = 0.98;
+// Trimming that would leave less than this share of a side is treated as a misdetection
+const MIN_TRIM_KEEP = 0.5;
+// Kept around the content so text does not touch the screen edge
+const TRIM_PADDING = 0.01;
+
+const hasColourChanges = (adj: ImageAdjustments, invert: boolean) =>
+    invert ||
+    !!adj.brightness || !!adj.contrast ||
+    (adj.gamma !== undefined && adj.gamma !== 1) ||
+    !!adj.blackPoint || (adj.whitePoint !== undefined && adj.whitePoint !== 255) ||
+    (!!adj.tone && adj.tone !== 'none');
+
+export const isIdentityAdjustment = (adj: ImageAdjustments | undefined, dark: boolean) =>
+    !adj || (!adj.autoCrop && !hasColourChanges(adj, dark && !!adj.invertInDark));
+
+// Levels first, then brightness and contrast around mid grey, then gamma
+const buildLookupTable = (adj: ImageAdjustments): Uint8ClampedArray => {
+    const black = adj.blackPoint || 0;
+    const white = Math.max(black + 1, adj.whitePoint ?? 255);
+    const brightness = (adj.brightness || 0) / 100;
+    const contrast = 1 + (adj.contrast || 0) / 100;
+    const gamma = adj.gamma || 1;
+    const table = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+        let v = Math.min(1, Math.max(0, (i - black) / (white - black)));
+        v = (v - 0.5) * contrast + 0.5 + brightness;
+        v = Math.min(1, Math.max(0, v));
+        table[i] = Math.round(Math.pow(v, 1 / gamma) * 255);
+    }
+    return table;
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) => (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+
+const findTrim = (image: ImageData): { x: number; y: number; width: number; height: number } | null => {
+    const { data, width, height } = image;
+    const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(p => luminance(data, p * 4));
+    const background = corners.reduce((a, b) => a + b, 0) / corners.length;
+    // Corners that disagree mean the page has no uniform margin
+    if (corners.some(c => Math.abs(c - background) > TRIM_TOLERANCE)) return null;
+
+    const isMargin = (x: number, y: number) => Math.abs(luminance(data, (y * width + x) * 4) - background) <= TRIM_TOLERANCE;
+    const rowIsMargin = (y: number) => {
+        let matches = 0;
+        for (let x = 0; x < width; x++) if (isMargin(x, y)) matches++;
+        return matches >= width * TRIM_COVERAGE;
+    };
+    const colIsMargin = (x: number, top: number, bottom: number) => {
+        let matches = 0;
+        for (let y = top; y < bottom; y++) if (isMargin(x, y)) matches++;
+        return matches >= (bottom - top) * TRIM_COVERAGE;
+    };
+
+    let top = 0, bottom = height, left = 0, right = width;
+    while (top < bottom - 1 && rowIsMargin(top)) top++;
+    while (bottom - 1 > top && rowIsMargin(bottom - 1)) bottom--;
+    while (left < right - 1 && colIsMargin(left, top, bottom)) left++;
+    while (right - 1 > left && colIsMargin(right - 1, top, bottom)) right--;
+
+    const padX = Math.round(width * TRIM_PADDING);
+    const padY = Math.round(height * TRIM_PADDING);
+    left = Math.max(0, left - padX);
+    right = Math.min(width, right + padX);
+    top = Math.max(0, top - padY);
+    bottom = Math.min(height, bottom + padY);
+
+    if (right - left < width * MIN_TRIM_KEEP || bottom - top < height * MIN_TRIM_KEEP) return null;
+    if (left === 0 && top === 0 && right === width && bottom === height) return null;
+    return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const applyColours = (image: ImageData, adj: ImageAdjustments, invert: boolean) => {
+    const { data } = image;
+    const table = buildLookupTable(adj);
+    const tone = adj.tone || 'none';
+    for (let i = 0; i < data.length; i += 4) {
+        let r = table[data[i]], g = table[data[i + 1]], b = table[data[i + 2]];
+        if (tone === 'grayscale') {
+            r = g = b = (r * 299 + g * 587 + b * 114) / 1000;
+        } else if (tone === 'sepia') {
+            const [sr, sg, sb] = [r, g, b];
+            r = sr * 0.393 + sg * 0.769 + sb * 0.189;
+            g = sr * 0.349 + sg * 0.686 + sb * 0.168;
+            b = sr * 0.272 + sg * 0.534 + sb * 0.131;
+        }
+        if (invert) {
+            r = 255 - r; g = 255 - g; b = 255 - b;
+        }
+        data[i] = r; data[i + 1] = g; data[i + 2] = b;
+    }
+};
+
+export const adjustImage = async (blob: Blob, adj: ImageAdjustments, dark: boolean): Promise<{ blob: Blob | null; crop?: PageCrop }> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const trim = adj.autoCrop ? findTrim(ctx.getImageData(0, 0, canvas.width, canvas.height)) : null;
+    const area = trim || { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    const image = ctx.getImageData(area.x, area.y, area.width, area.height);
+    const invert = dark && !!adj.invertInDark;
+    if (hasColourChanges(adj, invert)) applyColours(image, adj, invert);
+
+    const crop = trim ? { ...trim, sourceWidth: canvas.width, sourceHeight: canvas.height } : undefined;
+    canvas.width = area.width;
+    canvas.height = area.height;
+    ctx.putImageData(image, 0, 0);
+    const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    return { blob: await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92)), crop };
+};
+
+// Adjusted source plus the crop of each trimmed page, which the OCR boxes need
+export interface AdjustedSource extends BookSource {
+    getCrop: (name: string) => PageCrop | undefined;
+}
+
+// Every set of adjustments gets its own source, so the image cache never mixes them
+export const withImageAdjustments = (source: BookSource, adj: ImageAdjustments | undefined, dark: boolean): AdjustedSource => {
+    const crops = new Map<string, PageCrop>();
+    if (isIdentityAdjustment(adj, dark)) {
+        return { ...source, getCrop: () => undefined, close: () => source.close() };
+    }
+    return {
+        ...source,
+        getImage: async (name, signal) => {
+            const blob = await source.getImage(name, signal);
+            if (!blob) return null;
+            const result = await adjustImage(blob, adj!, dark);
+            if (result.crop) crops.set(name, result.crop);
+            else crops.delete(name);
+            return result.blob;
+        },
+        getCrop: (name) => crops.get(name),
+        close: () => source.close()
+    };
+};
+
+// OCR boxes moved onto a trimmed page; blocks in the trimmed margin are dropped
+export const cropOcrPage = (page: MokuroPage, crop: PageCrop | undefined): MokuroPage => {
+    if (!crop) return page;
+    // OCR may have been run on a different resolution than the decoded image
+    const sx = page.img_width ? page.img_width / crop.sourceWidth : 1;
+    const sy = page.img_height ? page.img_height / crop.sourceHeight : 1;
+    const [left, top, width, height] = [crop.x * sx, crop.y * sy, crop.width * sx, crop.height * sy];
+    const blocks = page.blocks
+        .filter(block => block.box[2] > left && block.box[0] < left + width && block.box[3] > top && block.box[1] < top + height)
+        .map(block => ({
+            ...block,
+            box: [block.box[0] - left, block.box[1] - top, block.box[2] - left, block.box[3] - top] as [number, number, number, number]
+        }));
+    return { ...page, blocks, img_width: Math.round(width), img_height: Math.round(height) };
+};
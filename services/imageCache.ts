@@ -0,0 +1,160 @@
+import { BookSource, isAbortError } from './parser';
+
+/**
+ * Object URLs for decoded pages, shared by the paged reader and the webtoon viewer.
+ * Entries are kept in least-recently-used order and revoked once the memory budget
+ * is exceeded. Pages on screen are pinned so their URLs are never revoked under them.
+ */
+
+const MB = 1024 * 1024;
+export const DEFAULT_IMAGE_CACHE_MB = 256;
+export const DEFAULT_PRELOAD_PAGES = 3;
+
+interface CacheEntry {
+    url: string;
+    size: number;
+}
+
+interface PendingLoad {
+    promise: Promise<string>;
+    controller: AbortController;
+    waiters: number; // Callers that can still cancel; the decode is aborted when all of them have
+}
+
+// Map iteration order doubles as the LRU order, oldest first
+const entries = new Map<string, CacheEntry>();
+const pending = new Map<string, PendingLoad>();
+const pins = new Map<string, number>();
+const sourceIds = new WeakMap<BookSource, number>();
+let nextSourceId = 1;
+let budget = DEFAULT_IMAGE_CACHE_MB * MB;
+let used = 0;
+
+const sourcePrefix = (source: BookSource) => {
+    let id = sourceIds.get(source);
+    if (id === undefined) {
+        id = nextSourceId++;
+        sourceIds.set(source, id);
+    }
+    return `${id}:`;
+};
+
+const keyOf = (source: BookSource, filename: string) => sourcePrefix(source) + filename;
+
+const removeEntry = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    URL.revokeObjectURL(entry.url);
+    used -= entry.size;
+    entries.delete(key);
+};
+
+const evict = () => {
+    for (const key of Array.from(entries.keys())) {
+        if (used <= budget) break;
+        if (!pins.has(key)) removeEntry(key);
+    }
+};
+
+export const setImageCacheBudget = (mb: number) => {
+    budget = Math.max(1, mb) * MB;
+    evict();
+};
+
+export const getCachedImageUrl = (source: BookSource, filename: string): string | undefined => {
+    const key = keyOf(source, filename);
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.url;
+};
+
+// Resolves to '' when the page is missing, failed to decode or every caller cancelled
+export const loadCachedImage = (source: BookSource, filename: string, signal?: AbortSignal): Promise<string> => {
+    const cached = getCachedImageUrl(source, filename);
+    if (cached) return Promise.resolve(cached);
+    if (signal?.aborted) return Promise.resolve('');
+
+    const key = keyOf(source, filename);
+    let load = pending.get(key);
+    if (!load) {
+        const controller = new AbortController();
+        const created: PendingLoad = { promise: Promise.resolve(''), controller, waiters: 0 };
+        created.promise = source.getImage(filename, controller.signal)
+            .then(blob => {
+                // Dropped when the source was released while decoding
+                if (!blob || pending.get(key) !== created) return '';
+                const url = URL.createObjectURL(blob);
+                entries.set(key, { url, size: blob.size });
+                used += blob.size;
+                evict();
+                return url;
+            })
+            .catch(e => {
+                if (!isAbortError(e)) console.error("Failed to load page", filename, e);
+                return '';
+            })
+            .finally(() => {
+                if (pending.get(key) === created) pending.delete(key);
+            });
+        load = created;
+        pending.set(key, load);
+    }
+
+    if (!signal) {
+        // Uncancellable callers keep the decode alive for good
+        load.waiters = Infinity;
+        return load.promise;
+    }
+
+    const current = load;
+    current.waiters++;
+    const onAbort = () => {
+        if (--current.waiters > 0) return;
+        current.controller.abort();
+        // Later callers start a fresh decode instead of joining the cancelled one
+        if (pending.get(key) === current) pending.delete(key);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    return current.promise.finally(() => signal.removeEventListener('abort', onAbort));
+};
+
+// Keeps a page from being evicted until the returned function is called
+export const retainImage = (source: BookSource, filename: string): (() => void) => {
+    const key = keyOf(source, filename);
+    pins.set(key, (pins.get(key) || 0) + 1);
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        const count = (pins.get(key) || 1) - 1;
+        if (count > 0) pins.set(key, count);
+        else pins.delete(key);
+        evict();
+    };
+};
+
+// Called when a source closes, its URLs cannot be reloaded afterwards
+export const releaseSourceImages = (source: BookSource) => {
+    const prefix = sourcePrefix(source);
+    Array.from(pending.keys()).filter(key => key.startsWith(prefix)).forEach(key => {
+        pending.get(key)!.controller.abort();
+        pending.delete(key);
+    });
+    Array.from(entries.keys()).filter(key => key.startsWith(prefix)).forEach(removeEntry);
+};
+
+/**
+ * Indices to decode ahead of a page, following the reading direction.
+ * Backwards reading (prevPage) looks behind instead.
+ */
+export const getPreloadIndices = (index: number, step: 1 | -1, count: number, total: number) => {
+    const indices: number[] = [];
+    for (let i = 1; i <= count; i++) {
+        const next = index + i * step;
+        if (next < 0 || next >= total) break;
+        indices.push(next);
+    }
+    return indices;
+};
@@ -0,0 +1,188 @@
+import JSZip from 'jszip';
+import { Book } from '../types';
+import { isSupportedBookFile, stripBookExtension, isImageFileName, compareFileNames } from './parser';
+
+// A picked or dropped file together with its path inside the selected folder
+export interface ImportFile {
+    file: File;
+    path: string;
+    handle?: FileSystemFileHandle; // Set when picked through the File System Access API, the book is linked
+}
+
+export interface ImportCandidate {
+    id: string;
+    file: File;
+    path: string;
+    title: string;
+    type: 'manga' | 'webtoon';
+    language: string;
+    included: boolean;
+    mokuroFile?: File;
+    translatedFile?: File;
+    handle?: FileSystemFileHandle;
+    libraryPath?: string;
+    fingerprint?: string;
+    duplicateOf?: Book; // Library book with the same content
+    replace?: boolean; // Replace the archive of duplicateOf instead of adding a new book
+}
+
+// Loose images that are packed into a new CBZ once their order is confirmed
+export interface ImageBookDraft {
+    id: string;
+    title: string;
+    images: File[];
+}
+
+// "Vol 1 (translated).cbz", "Vol 1_tr.cbz", "Vol 1.trans.cbz" ...
+// The marker must follow a separator or bracket, so "Star.cbz" or "Contrans.zip" stay originals
+const TRANSLATED_SUFFIX = /(?:[\s._-]+|[([])(translated|translation|trans|tr)[)\]]?$/i;
+// ".../translated/Vol 1.cbz"
+const TRANSLATED_DIR = /^(translated|translations?|trans|tr)$/i;
+
+const getFileName = (path: string) => path.split('/').pop() || path;
+
+const getParentDirs = (path: string) => path.split('/').slice(0, -1);
+
+const isTranslatedPath = (path: string) => {
+    const base = stripBookExtension(getFileName(path));
+    return TRANSLATED_SUFFIX.test(base) || getParentDirs(path).some(dir => TRANSLATED_DIR.test(dir));
+};
+
+// Key used to pair originals with their .mokuro sidecar and translated archive
+const getMatchKey = (path: string) => {
+    const name = getFileName(path);
+    const base = /\.mokuro$/i.test(name) ? name.replace(/\.mokuro$/i, '') : stripBookExtension(name);
+    return base.replace(TRANSLATED_SUFFIX, '').trim().toLowerCase();
+};
+
+export const fromFileList = (files: FileList | File[]): ImportFile[] => {
+    return Array.from(files).map(file => ({
+        file,
+        path: file.webkitRelativePath || file.name
+    }));
+};
+
+const readEntryFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readAllDirectoryEntries = async (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = dir.createReader();
+    const all: FileSystemEntry[] = [];
+    // readEntries returns results in batches until an empty batch is returned
+    while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        all.push(...batch);
+    }
+    return all;
+};
+
+const walkEntry = async (entry: FileSystemEntry, out: ImportFile[]) => {
+    if (entry.isFile) {
+        const file = await readEntryFile(entry as FileSystemFileEntry);
+        out.push({ file, path: entry.fullPath.replace(/^\//, '') });
+    } else if (entry.isDirectory) {
+        const children = await readAllDirectoryEntries(entry as FileSystemDirectoryEntry);
+        for (const child of children) await walkEntry(child, out);
+    }
+};
+
+/**
+ * Collects files from a drop event, descending into dropped folders.
+ * Must be called synchronously from the drop handler: DataTransfer items are
+ * only readable during the event.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<ImportFile[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    const fallback = fromFileList(dataTransfer.files);
+
+    if (entries.length === 0) return fallback;
+
+    const out: ImportFile[] = [];
+    for (const entry of entries) await walkEntry(entry, out);
+    return out;
+};
+
+export const buildImportCandidates = (files: ImportFile[]): ImportCandidate[] => {
+    const books = files.filter(f => isSupportedBookFile(f.file.name));
+    const mokuros = files.filter(f => /\.mokuro$/i.test(f.file.name));
+
+    const translated = books.filter(f => isTranslatedPath(f.path));
+    const originals = books.filter(f => !isTranslatedPath(f.path));
+    const originalKeys = new Set(originals.map(f => getMatchKey(f.path)));
+
+    // A translated archive without a matching original is imported as a book of its own
+    const standalone = translated.filter(f => !originalKeys.has(getMatchKey(f.path)));
+
+    return [...originals, ...standalone]
+        .sort((a, b) => compareFileNames(a.path, b.path))
+        .map((f, index) => {
+            const key = getMatchKey(f.path);
+            const isOriginal = originalKeys.has(key) && !isTranslatedPath(f.path);
+            return {
+                id: `${index}:${f.path}`,
+                file: f.file,
+                path: f.path,
+                handle: f.handle,
+                title: stripBookExtension(f.file.name),
+                type: 'manga',
+                language: '',
+                included: true,
+                mokuroFile: mokuros.find(m => getMatchKey(m.path) === key)?.file,
+                translatedFile: isOriginal ? translated.find(t => getMatchKey(t.path) === key)?.file : undefined
+            };
+        });
+};
+
+// --- Books From Images ---
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+/**
+ * Images pasted from the clipboard. Screenshots all arrive as "image.png",
+ * so they are renamed in paste order to keep them apart.
+ */
+export const fromClipboard = (data: DataTransfer): File[] => {
+    const stamp = Date.now();
+    return Array.from(data.files)
+        .filter(file => file.type in IMAGE_EXTENSIONS)
+        .map((file, i) => new File([file], `pasted-${stamp}-${i + 1}.${IMAGE_EXTENSIONS[file.type]}`, { type: file.type }));
+};
+
+// Same natural order as the pages inside an archive
+export const sortImageFiles = (files: File[]) => [...files].sort((a, b) => compareFileNames(a.name, b.name));
+
+// One draft per folder; images dropped on their own share a draft named after the first one
+export const buildImageDrafts = (files: ImportFile[]): ImageBookDraft[] => {
+    const groups = new Map<string, ImportFile[]>();
+    files.filter(f => isImageFileName(f.path)).forEach(f => {
+        const dir = getParentDirs(f.path).join('/');
+        groups.set(dir, [...(groups.get(dir) || []), f]);
+    });
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => compareFileNames(a, b))
+        .map(([dir, group]) => {
+            const images = [...group].sort((a, b) => compareFileNames(a.path, b.path)).map(f => f.file);
+            return {
+                id: `${Date.now()}:${dir}`,
+                title: dir ? getFileName(dir) : images[0].name.replace(/\.[^.]+$/, ''),
+                images
+            };
+        });
+};
+
+// Pages are renamed to zero-padded numbers so the archive keeps the chosen order
+export const packImagesToCbz = async (images: File[], title: string): Promise<File> => {
+    const zip = new JSZip();
+    const digits = Math.max(3, String(images.length).length);
+    images.forEach((image, i) => {
+        const ext = image.name.split('.').pop()!.toLowerCase();
+        zip.file(`${String(i + 1).padStart(digits, '0')}.${ext}`, image);
+    });
+    // Images are already compressed
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
+    return new File([blob], `${title}.cbz`, { type: 'application/zip' });
+};
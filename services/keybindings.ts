@@ -0,0 +1,93 @@
+import { KeyAction, Keybindings } from '../types';
+
+/**
+ * Keyboard and gamepad bindings are kept as two profiles of the same shape.
+ * Keyboard inputs are chords written as "Ctrl+Alt+Shift+Meta+key" (modifiers in that order, letters
+ * lower case); gamepad inputs are the GP_Btn_<index> and GP_Axis_<index>_<sign> names read by polling.
+ */
+
+// Order of the actions in the settings list
+export const KEY_ACTIONS: KeyAction[] = [
+    'nextPage', 'prevPage', 'toggleMenu', 'fullscreen', 'toggleBookmarks', 'addBookmark',
+    'ocrCrop', 'magnifier', 'toggleOcr', 'dictionarySearch', 'compareMode', 'pageOrganizer'
+];
+
+const emptyBindings = (): Keybindings =>
+    Object.fromEntries(KEY_ACTIONS.map(action => [action, []])) as unknown as Keybindings;
+
+export const DEFAULT_KEYBINDINGS: Keybindings = {
+    ...emptyBindings(),
+    nextPage: ['ArrowRight', ' '],
+    prevPage: ['ArrowLeft'],
+    toggleMenu: ['m'],
+    fullscreen: ['f'],
+    toggleBookmarks: ['b'],
+    addBookmark: ['Shift+b'],
+    ocrCrop: ['c'],
+    magnifier: ['z'],
+    toggleOcr: ['o'],
+    dictionarySearch: ['/'],
+    compareMode: ['t'],
+    pageOrganizer: ['p']
+};
+
+// Standard gamepad mapping: d-pad and left stick turn pages, Start opens the menu
+export const DEFAULT_GAMEPAD_BINDINGS: Keybindings = {
+    ...emptyBindings(),
+    nextPage: ['GP_Btn_15', 'GP_Axis_0_+'],
+    prevPage: ['GP_Btn_14', 'GP_Axis_0_-'],
+    toggleMenu: ['GP_Btn_9'],
+    addBookmark: ['GP_Btn_3'],
+    ocrCrop: ['GP_Btn_2']
+};
+
+export const isGamepadInput = (input: string) => input.startsWith('GP_');
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+// Chord for a key press, or null while only modifiers are held
+export const getKeyChord = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    return [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta', key].filter(Boolean).join('+');
+};
+
+/**
+ * Saved bindings completed with the defaults of actions added since they were saved.
+ * Bindings from before the gamepad profile existed mixed both kinds of input; they are split here.
+ */
+export const normalizeBindingProfiles = (keyboard?: Partial<Keybindings>, gamepad?: Partial<Keybindings>): { keyboard: Keybindings; gamepad: Keybindings } => {
+    const split = (bindings: Partial<Keybindings> | undefined, wantGamepad: boolean) => Object.fromEntries(
+        Object.entries(bindings || {}).map(([action, inputs]) => [action, (inputs || []).filter(input => isGamepadInput(input) === wantGamepad)])
+    ) as Partial<Keybindings>;
+    const legacyGamepad = split(keyboard, true);
+    const hasLegacyGamepad = Object.values(legacyGamepad).some(inputs => inputs && inputs.length > 0);
+    return {
+        keyboard: { ...DEFAULT_KEYBINDINGS, ...split(keyboard, false) },
+        gamepad: { ...DEFAULT_GAMEPAD_BINDINGS, ...(gamepad ? split(gamepad, true) : hasLegacyGamepad ? legacyGamepad : {}) }
+    };
+};
+
+export const findBindingAction = (bindings: Keybindings, inputs: string[]): KeyAction | undefined =>
+    KEY_ACTIONS.find(action => bindings[action]?.some(input => inputs.includes(input)));
+
+// Inputs bound to more than one action, with the actions sharing them
+export const findBindingConflicts = (bindings: Keybindings): Map<string, KeyAction[]> => {
+    const owners = new Map<string, KeyAction[]>();
+    for (const action of KEY_ACTIONS) {
+        for (const input of bindings[action] || []) {
+            owners.set(input, [...(owners.get(input) || []), action]);
+        }
+    }
+    return new Map([...owners].filter(([, actions]) => actions.length > 1));
+};
+
+export const formatBinding = (input: string) => {
+    if (input.startsWith('GP_Btn_')) return `GP ${input.split('_')[2]}`;
+    if (input.startsWith('GP_Axis_')) return `GP Axis ${input.split('_')[2]} ${input.split('_')[3]}`;
+    // The key is whatever follows the last separator, so "Ctrl++" keeps its plus
+    const cut = input.length > 1 ? input.lastIndexOf('+', input.length - 2) : -1;
+    const key = input.slice(cut + 1);
+    const label = key === ' ' ? 'Space' : key.startsWith('Arrow') ? key.replace('Arrow', '') : key.toUpperCase();
+    return cut >= 0 ? `${input.slice(0, cut)}+${label}` : label;
+};
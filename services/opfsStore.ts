@@ -0,0 +1,68 @@
+import { BookFiles } from '../types';
+import type { BlobBackend, FileField } from './db';
+
+// Book blobs as files under books/<id>/<field> in the Origin Private File System.
+// getFile() returns a disk-backed File; zip and PDF readers slice it by range, RAR/7z are still read whole.
+
+const BOOKS_DIR = 'books';
+const FIELDS: FileField[] = ['file', 'translatedFile', 'mokuroFile'];
+
+const isNotFound = (e: unknown) => e instanceof DOMException && e.name === 'NotFoundError';
+
+const getBooksDir = async () => (await navigator.storage.getDirectory()).getDirectoryHandle(BOOKS_DIR, { create: true });
+
+const getBookDir = async (id: string, create: boolean): Promise<FileSystemDirectoryHandle | null> => {
+    try {
+        return await (await getBooksDir()).getDirectoryHandle(id, { create });
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+};
+
+export const opfsBackend: BlobBackend = {
+    // Writable streams on the main thread are missing in older Safari
+    isAvailable: () =>
+        typeof navigator !== 'undefined' &&
+        typeof navigator.storage?.getDirectory === 'function' &&
+        typeof FileSystemFileHandle !== 'undefined' &&
+        'createWritable' in FileSystemFileHandle.prototype,
+
+    read: async (id) => {
+        const dir = await getBookDir(id, false);
+        if (!dir) return undefined;
+        const files: BookFiles = { id };
+        for (const field of FIELDS) {
+            try {
+                files[field] = await (await dir.getFileHandle(field)).getFile();
+            } catch (e) {
+                if (!isNotFound(e)) throw e;
+            }
+        }
+        return files;
+    },
+
+    write: async (id, blobs) => {
+        const dir = (await getBookDir(id, true))!;
+        for (const field of FIELDS) {
+            if (!(field in blobs)) continue;
+            const blob = blobs[field];
+            if (!blob) {
+                await dir.removeEntry(field).catch(e => { if (!isNotFound(e)) throw e; });
+                continue;
+            }
+            const writable = await (await dir.getFileHandle(field, { create: true })).createWritable();
+            try {
+                await writable.write(blob);
+                await writable.close();
+            } catch (e) {
+                await writable.abort();
+                throw e;
+            }
+        }
+    },
+
+    remove: async (id) => {
+        await (await getBooksDir()).removeEntry(id, { recursive: true }).catch(e => { if (!isNotFound(e)) throw e; });
+    }
+};
@@ -0,0 +1,161 @@
+import { MokuroPage, PageManifestEntry, PageRotation, PageSplit } from '../types';
+import { BookSource } from './parser';
+
+/**
+ * Page manifests override the filename order of an archive: pages can be reordered,
+ * hidden, rotated, or split into their left and right halves.
+ * Rotated and split pages get a suffixed name ("012.jpg#left@90") that the source
+ * returned by withPageTransforms decodes, so caches and viewers treat them like any page.
+ */
+
+// A page in reading order after the manifest is applied
+export interface ResolvedPage {
+    name: string; // Name to load from the transformed source
+    file: string; // Image inside the archive
+    archiveIndex: number; // Position in the archive's own order, used for OCR, translations and ComicInfo
+    rotation: PageRotation;
+    split?: PageSplit;
+}
+
+const TRANSFORM_SUFFIX = /#(left|right)?(?:@(90|180|270))?$/;
+
+const isTransformed = (entry: Pick<PageManifestEntry, 'rotation' | 'split'>) => !!entry.split || !!entry.rotation;
+
+export const getTransformedName = (file: string, entry: Pick<PageManifestEntry, 'rotation' | 'split'>) =>
+    isTransformed(entry) ? `${file}#${entry.split || ''}${entry.rotation ? `@${entry.rotation}` : ''}` : file;
+
+const parseTransformedName = (name: string) => {
+    const match = name.match(TRANSFORM_SUFFIX);
+    if (!match || match[0] === '#') return null;
+    return {
+        file: name.slice(0, -match[0].length),
+        split: match[1] as PageSplit | undefined,
+        rotation: (match[2] ? parseInt(match[2]) : 0) as PageRotation
+    };
+};
+
+// Identity of a page across manifest edits; the two halves of a split page are different pages
+const getPageKey = (entry: { file: string; split?: PageSplit }) => `${entry.file}#${entry.split || ''}`;
+
+/**
+ * Every manifest entry including hidden ones, for the organizer.
+ * Entries for images no longer in the archive are dropped, new images are appended.
+ */
+export const getManifestEntries = (imageFiles: string[], manifest?: PageManifestEntry[]): PageManifestEntry[] => {
+    const existing = new Set(imageFiles);
+    const entries = (manifest || []).filter(entry => existing.has(entry.file));
+    const listed = new Set(entries.map(entry => entry.file));
+    return [...entries, ...imageFiles.filter(file => !listed.has(file)).map(file => ({ file }))];
+};
+
+export const resolvePages = (imageFiles: string[], manifest?: PageManifestEntry[]): ResolvedPage[] => {
+    const archiveIndex = new Map(imageFiles.map((file, i) => [file, i]));
+    return getManifestEntries(imageFiles, manifest)
+        .filter(entry => !entry.hidden)
+        .map(entry => ({
+            name: getTransformedName(entry.file, entry),
+            file: entry.file,
+            archiveIndex: archiveIndex.get(entry.file)!,
+            rotation: entry.rotation || 0,
+            split: entry.split
+        }));
+};
+
+// A manifest that only restates the archive order is not worth storing
+export const isDefaultManifest = (imageFiles: string[], entries: PageManifestEntry[]) =>
+    entries.length === imageFiles.length &&
+    entries.every((entry, i) => entry.file === imageFiles[i] && !entry.hidden && !isTransformed(entry));
+
+/**
+ * Index of the same page after the manifest changed, used for progress and bookmarks.
+ * A page that was hidden moves to the next page still shown, or the last one.
+ */
+export const remapPageIndex = (before: ResolvedPage[], after: ResolvedPage[], index: number): number => {
+    if (after.length === 0) return 0;
+    const positions = new Map(after.map((page, i) => [getPageKey(page), i]));
+    for (let i = Math.max(0, index); i < before.length; i++) {
+        const found = positions.get(getPageKey(before[i])) ?? positions.get(getPageKey({ file: before[i].file }));
+        if (found !== undefined) return found;
+    }
+    return Math.min(index, after.length - 1);
+};
+
+// --- Image and OCR transforms ---
+
+const drawTransformed = async (blob: Blob, split: PageSplit | undefined, rotation: PageRotation): Promise<{ canvas: HTMLCanvasElement; width: number; height: number }> => {
+    const bitmap = await createImageBitmap(blob);
+    const sw = split ? Math.floor(bitmap.width / 2) : bitmap.width;
+    const sx = split === 'right' ? bitmap.width - sw : 0;
+    const sh = bitmap.height;
+    const quarter = rotation === 90 || rotation === 270;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = quarter ? sh : sw;
+    canvas.height = quarter ? sw : sh;
+    const ctx = canvas.getContext('2d')!;
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(bitmap, sx, 0, sw, sh, -sw / 2, -sh / 2, sw, sh);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return { canvas, ...size };
+};
+
+// Transformed source plus the size of each original image it decoded, which the OCR boxes need
+export interface TransformedSource extends BookSource {
+    getOriginalSize: (file: string) => { width: number; height: number } | undefined;
+}
+
+export const withPageTransforms = (source: BookSource): TransformedSource => {
+    const sizes = new Map<string, { width: number; height: number }>();
+    return {
+        ...source,
+        getImage: async (name, signal) => {
+            const transform = parseTransformedName(name);
+            if (!transform) return source.getImage(name, signal);
+            const blob = await source.getImage(transform.file, signal);
+            if (!blob) return null;
+            const { canvas, width, height } = await drawTransformed(blob, transform.split, transform.rotation);
+            sizes.set(transform.file, { width, height });
+            const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+            return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+        },
+        getOriginalSize: (file) => sizes.get(file),
+        close: () => source.close()
+    };
+};
+
+/**
+ * OCR boxes moved onto a split or rotated page. Needs the size of the original image,
+ * from the mokuro file or from decoding it; returns null while that is unknown.
+ */
+export const transformOcrPage = (page: MokuroPage, target: ResolvedPage, size?: { width: number; height: number }): MokuroPage | null => {
+    if (!target.split && !target.rotation) return page;
+    const width = page.img_width || size?.width;
+    const height = page.img_height || size?.height;
+    if (!width || !height) return null;
+
+    const half = Math.floor(width / 2);
+    const offsetX = target.split === 'right' ? width - half : 0;
+    const w = target.split ? half : width;
+    const h = height;
+
+    const blocks = page.blocks
+        .filter(block => {
+            if (!target.split) return true;
+            const center = (block.box[0] + block.box[2]) / 2;
+            return center >= offsetX && center < offsetX + w;
+        })
+        .map(block => {
+            const [x1, y1, x2, y2] = [block.box[0] - offsetX, block.box[1], block.box[2] - offsetX, block.box[3]];
+            let box: [number, number, number, number];
+            if (target.rotation === 90) box = [h - y2, x1, h - y1, x2];
+            else if (target.rotation === 180) box = [w - x2, h - y2, w - x1, h - y1];
+            else if (target.rotation === 270) box = [y1, w - x2, y2, w - x1];
+            else box = [x1, y1, x2, y2];
+            return { ...block, box };
+        });
+
+    const quarter = target.rotation === 90 || target.rotation === 270;
+    return { ...page, blocks, img_width: quarter ? h : w, img_height: quarter ? w : h };
+};
@@ -0,0 +1,71 @@
+import { ComicInfo } from '../types';
+import { initBookSource, BookSource } from './parser';
+import { saveBookPages, getBookPage, setBookUnpackedPages, deleteBookPages, StoredPage } from './db';
+
+// Pages written per transaction while unpacking, keeps memory flat on large volumes
+const BATCH_SIZE = 20;
+
+/**
+ * Extracts every page of an archive into book_pages so the reader can
+ * fetch single pages later without parsing the archive again.
+ */
+export const unpackBook = async (bookId: string, file: Blob, onProgress?: (done: number, total: number) => void): Promise<void> => {
+    const source = await initBookSource(file);
+    try {
+        await deleteBookPages(bookId);
+        const names: string[] = [];
+        let batch: StoredPage[] = [];
+        let totalSize = 0;
+
+        for (let i = 0; i < source.imageFiles.length; i++) {
+            const name = source.imageFiles[i];
+            const blob = await source.getImage(name);
+            if (blob) {
+                batch.push({ bookId, index: names.length, name, blob });
+                names.push(name);
+                totalSize += blob.size;
+            }
+            if (batch.length >= BATCH_SIZE) {
+                await saveBookPages(batch);
+                batch = [];
+            }
+            onProgress?.(i + 1, source.imageFiles.length);
+        }
+        if (batch.length > 0) await saveBookPages(batch);
+
+        // Only switch the book over once every page is stored.
+        // ComicInfo.xml is not a page, so its parsed form is kept with the book
+        await setBookUnpackedPages(bookId, names, totalSize, source.comicInfo);
+    } finally {
+        source.close();
+    }
+};
+
+/**
+ * Reads pages lazily from book_pages, one record per getImage call.
+ * A page missing from the store is read from the archive opened by openFallback,
+ * which only happens the first time that is needed.
+ */
+export const openStoredPages = (bookId: string, names: string[], comicInfo: ComicInfo | null, openFallback?: () => Promise<BookSource>): BookSource => {
+    const indexByName = new Map(names.map((name, i) => [name, i]));
+    let fallback: Promise<BookSource> | null = null;
+
+    const getImage = async (filename: string, signal?: AbortSignal) => {
+        const index = indexByName.get(filename);
+        if (index === undefined) return null;
+        const page = await getBookPage(bookId, index);
+        if (page) return page.blob;
+        if (!openFallback) return null;
+        if (!fallback) fallback = openFallback();
+        return (await fallback).getImage(filename, signal);
+    };
+
+    return {
+        format: 'stored',
+        imageFiles: names,
+        comicInfo,
+        getImage,
+        getCover: () => names.length > 0 ? getImage(names[0]) : Promise.resolve(null),
+        close: () => { fallback?.then(src => src.close()).catch(() => {}); }
+    };
+};
@@ -1,48 +1,252 @@
-import JSZip from 'jszip';
-import { MokuroData } from '../types';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+// pdfjs-dist 3.x only ships the classic worker build; Vite bundles it next to the app
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { MokuroData, ComicInfo } from '../types';
+import { parseComicInfo } from './comicinfo';
+import { openArchive, detectArchiveFormat, getMimeType, ArchiveFormat, DecodableFormat, ArchiveRequest, ArchiveResponse } from './archive';
 
-const getSortedImages = (files: JSZip.JSZipObject[]) => {
-    return files
-        .filter(file => 
-            !file.dir && 
-            /\.(jpg|jpeg|png|webp|gif)$/i.test(file.name) && 
-            !file.name.includes('__MACOSX') && 
-            !file.name.split('/').pop()?.startsWith('.')
-        )
-        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+export { isImageFileName, getSortedImages, compareFileNames } from './archive';
+export type { ArchiveFormat } from './archive';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Target rendered height (px) for PDF pages in the reader and for covers
+const PDF_PAGE_HEIGHT = 2000;
+const PDF_COVER_HEIGHT = 600;
+
+export const BOOK_FILE_ACCEPT = '.zip,.cbz,.rar,.cbr,.7z,.cb7,.pdf';
+
+const BOOK_EXTENSION_REGEX = /\.(zip|cbz|rar|cbr|7z|cb7|pdf)$/i;
+
+export const isSupportedBookFile = (name: string) => BOOK_EXTENSION_REGEX.test(name);
+
+export const stripBookExtension = (name: string) => name.replace(BOOK_EXTENSION_REGEX, '');
+
+// Opened book content, independent of the container format.
+// A signal cancels a pending read; close() cancels every read still pending.
+export interface BookSource {
+    format: ArchiveFormat | 'stored';
+    imageFiles: string[];
+    comicInfo: ComicInfo | null;
+    getImage: (filename: string, signal?: AbortSignal) => Promise<Blob | null>;
+    getCover: () => Promise<Blob | null>;
+    close: () => void;
+}
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// --- Zip / RAR / 7z Backend (archiveWorker.ts) ---
+
+type PendingRequest = { resolve: (msg: ArchiveResponse) => void; reject: (e: Error) => void };
+
+let archiveWorker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+const getArchiveWorker = () => {
+    if (!archiveWorker) {
+        const worker = new Worker(new URL('./archiveWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<ArchiveResponse>) => {
+            const msg = e.data;
+            const pending = pendingRequests.get(msg.id);
+            if (!pending) return;
+            pendingRequests.delete(msg.id);
+            if (msg.type === 'error') pending.reject(new Error(msg.message));
+            else if (msg.type === 'cancelled') pending.reject(abortError());
+            else pending.resolve(msg);
+        };
+        // A crashed worker loses every open archive, so the next open starts a fresh one
+        worker.onerror = (e) => {
+            console.error("Archive worker failed", e);
+            pendingRequests.forEach(p => p.reject(new Error("Archive worker failed")));
+            pendingRequests.clear();
+            worker.terminate();
+            if (archiveWorker === worker) archiveWorker = null;
+        };
+        archiveWorker = worker;
+    }
+    return archiveWorker;
 };
 
-export const extractCoverImage = async (file: Blob): Promise<Blob | null> => {
-    try {
-        const zip = new JSZip();
-        const content = await zip.loadAsync(file);
-        
-        const allFiles = Object.keys(content.files).map(key => content.files[key]);
-        const imageFiles = getSortedImages(allFiles);
+const sendRequest = <T extends ArchiveResponse>(build: (id: number) => ArchiveRequest, signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(abortError());
+    const worker = getArchiveWorker();
+    const id = nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            if (!pendingRequests.delete(id)) return;
+            worker.postMessage({ type: 'cancel', id } as ArchiveRequest);
+            reject(abortError());
+        };
+        const settle = () => signal?.removeEventListener('abort', onAbort);
+        pendingRequests.set(id, {
+            resolve: msg => { settle(); resolve(msg as T); },
+            reject: e => { settle(); reject(e); }
+        });
+        signal?.addEventListener('abort', onAbort, { once: true });
+        worker.postMessage(build(id));
+    });
+};
 
-        if (imageFiles.length === 0) return null; 
+const openInWorker = async (file: Blob, format: DecodableFormat): Promise<BookSource> => {
+    const opened = await sendRequest<Extract<ArchiveResponse, { type: 'opened' }>>(id => ({ type: 'open', id, file, format }));
+    const archiveId = opened.id;
+    const inflight = new Set<AbortController>();
+    let closed = false;
 
-        const firstImage = imageFiles[0];
-        return await firstImage.async('blob');
-    } catch (e) {
-        console.error("Error extracting cover", e);
-        return null;
+    // Each read gets its own controller so close() can cancel whatever is still queued
+    const read = async (name: string, signal?: AbortSignal) => {
+        if (closed) throw abortError();
+        const controller = new AbortController();
+        const forward = () => controller.abort();
+        signal?.addEventListener('abort', forward, { once: true });
+        if (signal?.aborted) controller.abort();
+        inflight.add(controller);
+        try {
+            return await sendRequest<Extract<ArchiveResponse, { type: 'buffer' }>>(id => ({ type: 'read', id, archiveId, name }), controller.signal);
+        } finally {
+            inflight.delete(controller);
+            signal?.removeEventListener('abort', forward);
+        }
+    };
+
+    const getImage = async (filename: string, signal?: AbortSignal) => {
+        const msg = await read(filename, signal);
+        return msg.buffer ? new Blob([msg.buffer], { type: msg.mimeType }) : null;
+    };
+
+    return {
+        format,
+        imageFiles: opened.imageFiles,
+        comicInfo: opened.comicInfoXml ? parseComicInfo(opened.comicInfoXml) : null,
+        getImage,
+        getCover: () => opened.imageFiles.length > 0 ? getImage(opened.imageFiles[0]) : Promise.resolve(null),
+        close: () => {
+            if (closed) return;
+            closed = true;
+            inflight.forEach(c => c.abort());
+            archiveWorker?.postMessage({ type: 'close', archiveId } as ArchiveRequest);
+        }
+    };
+};
+
+// Used where module workers are unavailable; same decoding, but on the main thread
+const openInThread = async (file: Blob, format: DecodableFormat): Promise<BookSource> => {
+    const archive = await openArchive(file, format);
+    const getImage = async (filename: string) => {
+        const buffer = await archive.read(filename);
+        return buffer ? new Blob([buffer], { type: getMimeType(filename) }) : null;
+    };
+    return {
+        format,
+        imageFiles: archive.imageFiles,
+        comicInfo: archive.comicInfoXml ? parseComicInfo(archive.comicInfoXml) : null,
+        getImage,
+        getCover: () => archive.imageFiles.length > 0 ? getImage(archive.imageFiles[0]) : Promise.resolve(null),
+        close: archive.close
+    };
+};
+
+const openDecodable = (format: DecodableFormat) => (file: Blob) =>
+    typeof Worker === 'undefined' ? openInThread(file, format) : openInWorker(file, format);
+
+// --- PDF Backend (pdf.js) ---
+
+// PDF pages have no file names, so synthesize sortable ones (also used to match Mokuro img_path)
+const pdfPageName = (index: number) => `page_${String(index + 1).padStart(4, '0')}.png`;
+
+const pdfPageIndex = (filename: string) => parseInt(filename.replace(/\D/g, ''), 10) - 1;
+
+const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, targetHeight: number): Promise<Blob | null> => {
+    const page = await pdf.getPage(pageNumber);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: targetHeight / baseViewport.height });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    page.cleanup();
+
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
+
+// pdf.js asks for byte ranges as it needs them, which are sliced from the file instead of reading it whole
+class BlobRangeTransport extends pdfjsLib.PDFDataRangeTransport {
+    constructor(private file: Blob) {
+        super(file.size, null);
     }
+
+    requestDataRange(begin: number, end: number) {
+        this.file.slice(begin, end).arrayBuffer()
+            .then(buffer => this.onDataRange(begin, new Uint8Array(buffer)))
+            .catch(e => console.error("Failed to read PDF range", e));
+    }
+}
+
+// Pages are rasterized on demand. pdf.js already parses in its own worker,
+// only the canvas rendering stays on the main thread.
+const openPdf = async (file: Blob): Promise<BookSource> => {
+    const pdf = await pdfjsLib.getDocument({ range: new BlobRangeTransport(file), disableAutoFetch: true }).promise;
+    const imageFiles = Array.from({ length: pdf.numPages }, (_, i) => pdfPageName(i));
+
+    return {
+        format: 'pdf',
+        imageFiles,
+        comicInfo: null,
+        getImage: async (filename) => {
+            const index = pdfPageIndex(filename);
+            if (isNaN(index) || index < 0 || index >= pdf.numPages) return null;
+            return renderPdfPage(pdf, index + 1, PDF_PAGE_HEIGHT);
+        },
+        getCover: () => pdf.numPages > 0 ? renderPdfPage(pdf, 1, PDF_COVER_HEIGHT) : Promise.resolve(null),
+        close: () => { pdf.destroy(); }
+    };
+};
+
+const BACKENDS: Record<ArchiveFormat, (file: Blob) => Promise<BookSource>> = {
+    zip: openDecodable('zip'),
+    rar: openDecodable('rar'),
+    '7z': openDecodable('7z'),
+    pdf: openPdf,
+};
+
+export const initBookSource = async (file: Blob): Promise<BookSource> => {
+    const format = await detectArchiveFormat(file);
+    if (!format) throw new Error("Unsupported file format");
+    return BACKENDS[format](file);
+};
+
+export const closeBookSource = (source: BookSource | null) => {
+    source?.close();
 };
 
-export const initZip = async (file: Blob) => {
-    const zip = new JSZip();
-    const content = await zip.loadAsync(file);
-    const allFiles = Object.keys(content.files).map(key => content.files[key]);
-    const imageFiles = getSortedImages(allFiles).map(f => f.name);
-    return { zipInstance: content, imageFiles };
+// Cover and ComicInfo.xml read in one pass for the import dialogs
+export const extractBookInfo = async (file: Blob): Promise<{ cover: Blob | null; comicInfo: ComicInfo | null }> => {
+    try {
+        const source = await initBookSource(file);
+        // The archive worker keeps the decoded archive until the source is closed
+        try {
+            return { cover: await source.getCover(), comicInfo: source.comicInfo };
+        } finally {
+            source.close();
+        }
+    } catch (e) {
+        console.error("Error extracting cover", e);
+        return { cover: null, comicInfo: null };
+    }
 };
 
-export const loadImage = async (zip: JSZip, filename: string): Promise<string> => {
-    const file = zip.files[filename];
-    if (!file) return '';
-    const blob = await file.async('blob');
-    return URL.createObjectURL(blob);
+// Rejects with an AbortError when the signal fires before the page is decoded
+export const loadSourceImage = async (source: BookSource, filename: string, signal?: AbortSignal): Promise<string> => {
+    const blob = await source.getImage(filename, signal);
+    return blob ? URL.createObjectURL(blob) : '';
 };
 
 export const parseMokuro = async (file: Blob): Promise<MokuroData | null> => {
@@ -53,4 +257,4 @@ export const parseMokuro = async (file: Blob): Promise<MokuroData | null> => {
         console.error("Failed to parse Mokuro file", e);
         return null;
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,100 @@
+import { Book } from '../types';
+import { compareFileNames } from './parser';
+
+export interface SeriesGroup {
+    name: string;
+    books: Book[];
+    progress: number; // 0-100 across all volumes
+    finishedCount: number;
+}
+
+// Explicit sort key wins, otherwise volume then chapter (chapters sort inside their volume)
+export const getSeriesOrder = (book: Book): number => {
+    const s = book.series;
+    if (!s) return Number.MAX_SAFE_INTEGER;
+    if (s.sortKey !== undefined) return s.sortKey;
+    return (s.volume ?? 0) * 10000 + (s.chapter ?? 0);
+};
+
+export const compareSeriesOrder = (a: Book, b: Book) => {
+    const diff = getSeriesOrder(a) - getSeriesOrder(b);
+    return diff !== 0 ? diff : compareFileNames(a.title, b.title);
+};
+
+// book.progress is the last viewed page index; without a known page count fall back to the raw value
+export const getBookProgressPercent = (book: Book): number => {
+    const progress = book.progress || 0;
+    if (book.pageCount && book.pageCount > 0) {
+        return Math.min(100, ((progress + 1) / book.pageCount) * 100);
+    }
+    return Math.min(100, progress);
+};
+
+export const isBookFinished = (book: Book) =>
+    !!book.pageCount && (book.progress || 0) >= book.pageCount - 1;
+
+export const groupBooksBySeries = (books: Book[]): { groups: SeriesGroup[]; ungrouped: Book[] } => {
+    const map = new Map<string, Book[]>();
+    const ungrouped: Book[] = [];
+
+    books.forEach(b => {
+        const name = b.series?.name?.trim();
+        if (!name) { ungrouped.push(b); return; }
+        if (!map.has(name)) map.set(name, []);
+        map.get(name)!.push(b);
+    });
+
+    const groups = Array.from(map.entries()).map(([name, list]) => {
+        const sorted = [...list].sort(compareSeriesOrder);
+        const progress = sorted.reduce((sum, b) => sum + getBookProgressPercent(b), 0) / sorted.length;
+        return {
+            name,
+            books: sorted,
+            progress,
+            finishedCount: sorted.filter(isBookFinished).length
+        };
+    }).sort((a, b) => compareFileNames(a.name, b.name));
+
+    return { groups, ungrouped };
+};
+
+export const findNextVolume = (book: Book, books: Book[]): Book | null => {
+    const name = book.series?.name?.trim();
+    if (!name) return null;
+    const sorted = books.filter(b => b.series?.name?.trim() === name).sort(compareSeriesOrder);
+    const idx = sorted.findIndex(b => b.id === book.id);
+    return idx !== -1 && idx + 1 < sorted.length ? sorted[idx + 1] : null;
+};
+
+// "Title v03", "Title Vol. 3", "Title 第3巻", "Title - Ch. 12" ...
+const VOLUME_PATTERNS = [
+    /^(.*?)[\s._-]*(?:v|vol\.?|volume|tome|band)\s*(\d+(?:\.\d+)?)/i,
+    /^(.*?)\s*第\s*(\d+)\s*[巻卷册冊]/,
+];
+const CHAPTER_PATTERNS = [
+    /^(.*?)[\s._-]*(?:c|ch\.?|chapter|chap\.?)\s*(\d+(?:\.\d+)?)/i,
+    /^(.*?)\s*第\s*(\d+)\s*[话話]/,
+];
+
+const cleanSeriesName = (name: string) => name.replace(/[\s._\-([]+$/, '').trim();
+
+export const guessSeriesFromTitle = (title: string): Book['series'] | undefined => {
+    for (const re of VOLUME_PATTERNS) {
+        const m = title.match(re);
+        if (m && cleanSeriesName(m[1])) {
+            const chapter = CHAPTER_PATTERNS.map(c => title.match(c)).find(Boolean);
+            return {
+                name: cleanSeriesName(m[1]),
+                volume: parseFloat(m[2]),
+                chapter: chapter ? parseFloat(chapter[2]) : undefined
+            };
+        }
+    }
+    for (const re of CHAPTER_PATTERNS) {
+        const m = title.match(re);
+        if (m && cleanSeriesName(m[1])) {
+            return { name: cleanSeriesName(m[1]), chapter: parseFloat(m[2]) };
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,36 @@
+/**
+ * Pairing of pages for double-page mode. Pages are paired greedily from the start, so a
+ * page that must stand alone (a cover, a landscape spread) shifts the pairs after it
+ * instead of leaving an orphan before it. The offset shows the first page that would
+ * be paired on its own, for books whose pairs start on the wrong side.
+ *
+ * The result maps every page to the first page of its spread. Spreads are listed in
+ * reading order; the viewer lays them out right to left for rtl books.
+ */
+export const buildSpreadStarts = (count: number, isSolo: (index: number) => boolean, offset: boolean): number[] => {
+    const starts: number[] = new Array(count);
+    let shiftPending = offset;
+    let i = 0;
+    while (i < count) {
+        starts[i] = i;
+        if (isSolo(i)) {
+            i++;
+            continue;
+        }
+        if (shiftPending) {
+            shiftPending = false;
+            i++;
+            continue;
+        }
+        const paired = i + 1 < count && !isSolo(i + 1);
+        if (paired) starts[i + 1] = i;
+        i += paired ? 2 : 1;
+    }
+    return starts;
+};
+
+// Page indices shown together with the page at index
+export const getSpreadPages = (starts: number[], index: number): number[] => {
+    const start = starts[index] ?? index;
+    return starts[start + 1] === start ? [start, start + 1] : [start];
+};
@@ -0,0 +1,56 @@
+import { Book } from '../types';
+
+export interface StorageEstimateInfo {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+export interface BookSizeInfo {
+    book: Book;
+    file: number;
+    translatedFile: number;
+    mokuroFile: number;
+    coverBlob: number;
+    pages: number;
+    total: number;
+}
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let i = 0;
+    while (value >= 1024 && i < units.length - 1) {
+        value /= 1024;
+        i++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[i]}`;
+};
+
+// navigator.storage is missing in insecure contexts and some older browsers
+export const getStorageEstimate = async (): Promise<StorageEstimateInfo | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+};
+
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+};
+
+export const getBookSizes = (books: Book[]): BookSizeInfo[] => {
+    return books
+        .map(book => {
+            // Linked archives stay on disk and take no browser storage
+            const file = book.fileHandle ? 0 : book.fileSizes?.file || 0;
+            const translatedFile = book.fileSizes?.translatedFile || 0;
+            const mokuroFile = book.fileSizes?.mokuroFile || 0;
+            const coverBlob = book.coverBlob?.size || 0;
+            const pages = book.fileSizes?.pages || 0;
+            return { book, file, translatedFile, mokuroFile, coverBlob, pages, total: file + translatedFile + mokuroFile + coverBlob + pages };
+        })
+        .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,54 @@
+import { ReadingDirection, TapAction, TapZonePreset } from '../types';
+
+/**
+ * Tap zones split the paged view into a 3x3 grid, listed row by row, and give each cell an
+ * action. Layouts are stored as seen on a left-to-right book; right-to-left books use the
+ * mirrored layout, so "next" stays on the side reading moves towards.
+ */
+
+export const TAP_ZONE_COLUMNS = 3;
+export const TAP_ZONE_ROWS = 3;
+
+export const TAP_ZONE_PRESETS: Record<Exclude<TapZonePreset, 'custom'>, TapAction[]> = {
+    // Going back from the left column and the top row, the common e-reader layout
+    lShape: [
+        'prev', 'prev', 'prev',
+        'prev', 'menu', 'next',
+        'prev', 'next', 'next'
+    ],
+    // The side columns turn pages, the middle stays free for OCR boxes
+    edges: [
+        'prev', 'menu', 'next',
+        'prev', 'none', 'next',
+        'prev', 'none', 'next'
+    ],
+    // Top row opens the menu, a narrow left column goes back, everything else goes forward
+    kindle: [
+        'menu', 'menu', 'menu',
+        'prev', 'next', 'next',
+        'prev', 'next', 'next'
+    ]
+};
+
+export const TAP_ACTIONS: TapAction[] = ['next', 'prev', 'menu', 'bookmark', 'ocrCrop', 'none'];
+
+export const DEFAULT_TAP_ZONES = TAP_ZONE_PRESETS.edges;
+
+export const getTapZones = (zones: TapAction[] | undefined): TapAction[] =>
+    zones && zones.length === TAP_ZONE_COLUMNS * TAP_ZONE_ROWS ? zones : DEFAULT_TAP_ZONES;
+
+// Preset a layout matches, 'custom' once a cell was changed by hand
+export const getTapZonePreset = (zones: TapAction[] | undefined): TapZonePreset => {
+    const current = getTapZones(zones);
+    const match = (Object.keys(TAP_ZONE_PRESETS) as (keyof typeof TAP_ZONE_PRESETS)[])
+        .find(preset => TAP_ZONE_PRESETS[preset].every((action, i) => action === current[i]));
+    return match || 'custom';
+};
+
+// Action for a tap at x, y given as fractions (0-1) of the view
+export const getTapAction = (zones: TapAction[] | undefined, x: number, y: number, direction: ReadingDirection): TapAction => {
+    const column = Math.min(TAP_ZONE_COLUMNS - 1, Math.max(0, Math.floor(x * TAP_ZONE_COLUMNS)));
+    const row = Math.min(TAP_ZONE_ROWS - 1, Math.max(0, Math.floor(y * TAP_ZONE_ROWS)));
+    const layoutColumn = direction === 'rtl' ? TAP_ZONE_COLUMNS - 1 - column : column;
+    return getTapZones(zones)[row * TAP_ZONE_COLUMNS + layoutColumn];
+};
@@ -32,26 +32,88 @@ export interface ReadingStats {
     dailyTime: Record<string, number>; // YYYY-MM-DD -> ms
 }
 
+export interface SeriesInfo {
+    name: string;
+    volume?: number;
+    chapter?: number;
+    sortKey?: number; // Manual ordering override, otherwise volume/chapter
+}
+
+// Sizes of the blobs kept in the book_files store, so listings never have to read it
+export interface BookFileSizes {
+  file: number;
+  translatedFile?: number;
+  mokuroFile?: number;
+  pages?: number; // Unpacked page blobs in book_pages
+}
+
+export type PageRotation = 0 | 90 | 180 | 270;
+export type PageSplit = 'left' | 'right';
+
+// One page of a book as arranged in the page organizer
+export interface PageManifestEntry {
+  file: string; // Image name inside the archive
+  hidden?: boolean;
+  rotation?: PageRotation; // Clockwise
+  split?: PageSplit; // Only this half of a spread scanned as one image
+}
+
+// Metadata always stays in IndexedDB, archive data can live in the Origin Private File System
+export type StorageBackend = 'indexeddb' | 'opfs';
+
+export interface BookFiles {
+  id: string;
+  file?: Blob; // Missing for books linked to a file on disk
+  translatedFile?: Blob;
+  mokuroFile?: Blob;
+}
+
 export interface Book {
   id: string;
   title: string;
   type: 'manga' | 'webtoon';
   coverUrl: string; 
   coverBlob?: Blob; 
-  file: Blob;
+  // Archive blobs are only present when passed to addBook or loaded via getBookWithFiles
+  file?: Blob;
   translatedFile?: Blob;
   pageOffset?: number;
   mokuroFile?: Blob;
+  fileSizes?: BookFileSizes;
+  unpackedPages?: string[]; // Image names of the pages stored one by one in book_pages
+  unpackedComicInfo?: ComicInfo; // ComicInfo of the archive those pages came from
   bookmarks?: Bookmark[];
   addedAt: number;
   progress?: number;
   language?: string; 
   ankiTags?: string;
   stats?: ReadingStats; // Added
+  series?: SeriesInfo;
+  pageCount?: number; // Recorded when the book is first opened
+  readingDirection?: ReadingDirection; // Overrides the global direction (e.g. from ComicInfo.xml)
+  fileHandle?: FileSystemFileHandle; // Archive read from disk instead of a stored blob
+  libraryPath?: string; // Path inside the library folder, for books picked up by a scan
+  storage?: StorageBackend; // Where the blobs in BookFiles live, IndexedDB when missing
+  pageManifest?: PageManifestEntry[]; // Reading order set in the page organizer, archive order when missing
+  spreadOffset?: boolean; // Double-page mode pairs shifted by one page
+  settings?: BookSettings; // Reader settings overridden for this book, see services/bookSettings.ts
+  fingerprint?: string; // Content hash of the archive for duplicate detection, see services/fingerprint.ts
+  deletedAt?: number; // Set while the book is in the trash
+}
+
+// Folder rescanned for new volumes; books found there are linked, not copied
+export interface LibraryFolder {
+  id: string;
+  handle: FileSystemDirectoryHandle;
+  name: string;
+  lastScan?: number;
+  ignoredPaths?: string[]; // Books deleted from the library or already imported by copy, not re-added by later scans
 }
 
 export interface MokuroPage {
   img_path: string;
+  img_width?: number;
+  img_height?: number;
   blocks: MokuroBlock[];
 }
 
@@ -66,6 +128,25 @@ export interface MokuroData {
   pages: MokuroPage[];
 }
 
+// Subset of the ComicRack ComicInfo.xml schema used on import
+export interface ComicInfoPage {
+  image: number; // Index into the sorted image list
+  type?: string; // FrontCover, Story, Advertisement ...
+  doublePage?: boolean;
+}
+
+export interface ComicInfo {
+  title?: string;
+  series?: string;
+  number?: string;
+  volume?: number;
+  writer?: string;
+  languageISO?: string;
+  manga?: 'Unknown' | 'No' | 'Yes' | 'YesAndRightToLeft';
+  format?: string;
+  pages: ComicInfoPage[];
+}
+
 export interface AnkiSettingsType {
   ip: string;
   port: string;
@@ -83,7 +164,11 @@ export interface AnkiSettingsType {
 
 export type ViewMode = 'bookshelf' | 'reader';
 export type PageViewMode = 'single' | 'double' | 'webtoon';
+// 'page' fits the whole page (or spread) on screen, 'original' shows image pixels 1:1
+export type FitMode = 'page' | 'width' | 'height' | 'original' | 'custom';
 export type ReadingDirection = 'ltr' | 'rtl';
+export type TapAction = 'next' | 'prev' | 'menu' | 'bookmark' | 'ocrCrop' | 'none';
+export type TapZonePreset = 'lShape' | 'edges' | 'kindle' | 'custom';
 export type DictionaryMode = 'panel' | 'popup';
 export type ThemeMode = 'light' | 'dark';
 
@@ -92,12 +177,22 @@ export type WebSearchEngine =
   | 'bing_trans' | 'deepl' | 'baidu_trans' | 'youdao_trans'
   | 'baidu_baike' | 'wikipedia' | 'moegirl';
 
+// Inputs bound to each reader action, see services/keybindings.ts for the input names
 export interface Keybindings {
   nextPage: string[];
   prevPage: string[];
   toggleMenu: string[];
   fullscreen: string[];
+  toggleBookmarks: string[];
+  addBookmark: string[];
+  ocrCrop: string[];
+  magnifier: string[];
+  toggleOcr: string[];
+  dictionarySearch: string[];
+  compareMode: string[];
+  pageOrganizer: string[];
 }
+export type KeyAction = keyof Keybindings;
 
 export interface LocalDictionary {
     id: string;
@@ -105,6 +200,7 @@ export interface LocalDictionary {
     count: number;
     targetLang: string | 'universal'; 
     priority?: number; // Added
+    deletedAt?: number; // Set while the dictionary is in the trash
 }
 
 export interface ReaderSettings {
@@ -114,7 +210,7 @@ export interface ReaderSettings {
   language: 'zh' | 'en' | 'zh-Hant';
   compareMode: boolean;
   comparisonLayout: 'standard' | 'swapped';
-  libraryViewMode: 'grid' | 'list';
+  libraryViewMode: 'grid' | 'list' | 'series';
   dictionaryMode: DictionaryMode;
   dictionarySource: 'api' | 'local';
   learningLanguage: 'en' | 'zh' | 'ja' | 'ko' | 'fr' | 'de' | 'es' | 'it' | 'ru' | 'pt'; 
@@ -130,8 +226,35 @@ export interface ReaderSettings {
   ttsVolume: number; // Added
   webSearchEngine: WebSearchEngine; 
   webSearchMode: 'iframe' | 'external';
-  keybindings: Keybindings;
+  keybindings: Keybindings; // Keyboard profile
+  gamepadBindings?: Keybindings; // Gamepad profile
   ankiBoldText: boolean; 
   popupFontSize: number; 
   copyToClipboard: boolean;
-}
\ No newline at end of file
+  unpackOnImport?: boolean; // Store every page as its own blob when adding books
+  imageCacheSize?: number; // MB of decoded page blobs kept as object URLs
+  preloadPages?: number; // Pages decoded ahead in the reading direction
+  storageBackend?: StorageBackend; // Backend for newly added archives
+  trashRetentionDays?: number; // Trashed books and dictionaries are purged after this many days, 0 keeps them
+  fitMode?: FitMode; // How paged views size the page before any zoom
+  customZoom?: number; // Percent of the fitted page size, for fitMode 'custom'
+  keepZoom?: boolean; // A zoom set by hand stays when turning pages
+  imageAdjustments?: ImageAdjustments; // Applied to pages as they are decoded, see services/imageAdjust.ts
+  tapZones?: TapAction[]; // 3x3 grid row by row, laid out for ltr books, see services/tapZones.ts
+  swipeToTurn?: boolean; // Horizontal swipes turn pages while the page is not panned sideways
+}
+
+export interface ImageAdjustments {
+  blackPoint?: number; // Levels, 0-255: input values at or below become black
+  whitePoint?: number; // Levels, 0-255: input values at or above become white (yellowed paper)
+  brightness?: number; // -100 to 100
+  contrast?: number; // -100 to 100
+  gamma?: number; // 1 leaves midtones unchanged
+  tone?: 'none' | 'grayscale' | 'sepia';
+  invertInDark?: boolean; // Invert pages while the dark theme is active
+  autoCrop?: boolean; // Trim uniform margins in paged modes
+}
+
+// Reader settings a book can override; the reading direction is stored in Book.readingDirection
+export type BookSettingKey = 'readingDirection' | 'pageViewMode' | 'overlayStyle' | 'comparisonLayout' | 'tesseractLanguage' | 'dictionarySource' | 'fitMode' | 'customZoom' | 'imageAdjustments';
+export type BookSettings = Partial<Pick<ReaderSettings, BookSettingKey>>;
\ No newline at end of file